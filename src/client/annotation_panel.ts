@@ -0,0 +1,207 @@
+import { GUI, GUIController } from 'three/examples/jsm/libs/dat.gui.module';
+
+import {
+    AnnotationLayer,
+    MarkerStyle,
+    defaultMarkerStyle,
+    markerKinds,
+} from './annotations';
+import { downloadBlob } from './app_util';
+import { LoadError, describeError, validateGeoJson } from './validation';
+
+/**
+ * A panel to manage the annotations of a layer: the marker settings of
+ * new annotations, renaming, moving and removing the selected annotation,
+ * and import and export of the annotations as GeoJSON.
+ */
+export class AnnotationPanel {
+    /**
+     * Create a new panel.
+     * @param layer The annotations
+     */
+    public constructor(layer: AnnotationLayer) {
+        this._layer = layer;
+
+        this._gui = new GUI({ name: 'Annotations', width: 300 });
+        this._gui.add(this._status, 'text').name('Status').listen();
+
+        const marker = this._gui.addFolder('New marker');
+        marker.add(this._style, 'marker', markerKinds).name('Kind');
+        marker.add(this._style, 'size', 0.1, 1000.0).name('Size (m)');
+        marker.add(this._style, 'model').name('Model URL');
+
+        const selected = this._gui.addFolder('Selected');
+        this._name = selected
+            .add(this._selection, 'name')
+            .name('Name')
+            .onFinishChange((value: string) => {
+                const annotation = this._layer.selected();
+                if (annotation) {
+                    this._layer.rename(annotation, value);
+                }
+            });
+        selected
+            .add({ move: () => this.setMoving(true) }, 'move')
+            .name('Move to next pick');
+        selected
+            .add({ remove: () => this.removeSelected() }, 'remove')
+            .name('Delete');
+        selected.open();
+
+        const buttons = {
+            import: () => this.importFile(),
+            export: () => this.exportFile(),
+            clear: () => {
+                this._layer.clear();
+                this.updateSelection();
+            },
+        };
+        this._gui.add(buttons, 'import').name('Import GeoJSON');
+        this._gui.add(buttons, 'export').name('Export GeoJSON');
+        this._gui.add(buttons, 'clear').name('Delete all');
+
+        this.updateSelection();
+    }
+
+    /**
+     * Get the marker settings for new annotations.
+     * @returns The settings
+     */
+    public newMarker(): MarkerStyle {
+        return {
+            marker: this._style.marker,
+            size: this._style.size,
+            model: this._style.model.length > 0 ? this._style.model : undefined,
+        };
+    }
+
+    /**
+     * Check if the selected annotation is to be moved to the next pick.
+     * @returns True if moving
+     */
+    public moving(): boolean {
+        return this._moving;
+    }
+
+    /**
+     * Arm or cancel moving the selected annotation to the next pick.
+     * @param moving Flag to move
+     */
+    public setMoving(moving: boolean): void {
+        this._moving = moving && this._layer.selected() !== undefined;
+        this.updateStatus();
+    }
+
+    /**
+     * Show the layer's selected annotation, called when the selection
+     * has changed.
+     */
+    public updateSelection(): void {
+        const annotation = this._layer.selected();
+        this._selection.name = annotation ? annotation.name : '';
+        this._name.updateDisplay();
+        if (!annotation) {
+            this._moving = false;
+        }
+        this.updateStatus();
+    }
+
+    /**
+     * Show or hide the panel.
+     * @param visible Flag to show the panel
+     */
+    public setVisible(visible: boolean): void {
+        if (visible) {
+            this._gui.show();
+        } else {
+            this._gui.hide();
+        }
+        this._visible = visible;
+    }
+
+    /**
+     * Check if the panel is shown.
+     * @returns True if shown
+     */
+    public visible(): boolean {
+        return this._visible;
+    }
+
+    /**
+     * Remove the panel.
+     */
+    public dispose(): void {
+        this._gui.destroy();
+    }
+
+    private removeSelected(): void {
+        const annotation = this._layer.selected();
+        if (annotation) {
+            this._layer.remove(annotation);
+        }
+        this.updateSelection();
+    }
+
+    /**
+     * Let the user pick a GeoJSON file, and add its points.
+     */
+    private importFile(): void {
+        const input = document.createElement('input');
+        input.type = 'file';
+        input.accept = '.geojson,.json,application/geo+json';
+        input.onchange = async () => {
+            const file =
+                input.files && input.files.length > 0
+                    ? input.files[0]
+                    : undefined;
+            if (!file) {
+                return;
+            }
+
+            try {
+                let data: unknown;
+                try {
+                    data = JSON.parse(await file.text());
+                } catch (e) {
+                    throw new LoadError(file.name, 'not valid JSON', e);
+                }
+                const added = this._layer.addGeoJson(validateGeoJson(data));
+                this._status.text = `Imported ${added} annotations`;
+            } catch (e) {
+                console.warn(describeError(e));
+                this._status.text = 'Import failed';
+            }
+        };
+        input.click();
+    }
+
+    private exportFile(): void {
+        downloadBlob(
+            new Blob([JSON.stringify(this._layer.toGeoJson())], {
+                type: 'application/geo+json',
+            }),
+            'annotations.geojson'
+        );
+    }
+
+    private updateStatus(): void {
+        const count = this._layer.annotations().length;
+        const annotation = this._layer.selected();
+        if (this._moving) {
+            this._status.text = 'Pick the new position';
+        } else if (annotation) {
+            this._status.text = `${count} annotations, '${annotation.name}' selected`;
+        } else {
+            this._status.text = `${count} annotations`;
+        }
+    }
+
+    private _layer: AnnotationLayer;
+    private _gui: GUI;
+    private _name: GUIController;
+    private _style = { ...defaultMarkerStyle, model: '' };
+    private _selection = { name: '' };
+    private _status = { text: '' };
+    private _moving = false;
+    private _visible = true;
+}
@@ -0,0 +1,579 @@
+import * as Three from 'three';
+
+import { fetchCollada, fetchGltf, geodeticToEcef } from './app_util';
+import {
+    GeoJson,
+    GeoJsonFeature,
+    GeoJsonFeatureCollection,
+    geoJsonFeatures,
+} from './geojson';
+import { createLabel, disposeOverlay } from './geojson_layer';
+import { ecefToGeodetic } from './geo_query';
+import {
+    LoadReport,
+    describeError,
+    validateGeoJson,
+    warnOnFailure,
+} from './validation';
+
+/**
+ * How an annotation is drawn:
+ * - pin: a pin of constant screen size
+ * - label: only the name
+ * - symbol: a spinning 3D symbol, sized in meters
+ * - model: a glTF/GLB or Collada model, sized in meters
+ */
+export type MarkerKind = 'pin' | 'label' | 'symbol' | 'model';
+
+/**
+ * The marker kinds, for selection in the user interface.
+ */
+export const markerKinds: MarkerKind[] = ['pin', 'label', 'symbol', 'model'];
+
+/**
+ * A named marker at a geographic position. The position is WGS84, with
+ * the ellipsoid height in meters.
+ */
+export interface Annotation {
+    id: number;
+    name: string;
+    marker: MarkerKind;
+    latitude: number;
+    longitude: number;
+    height: number;
+    /** Size of symbols and models in meters. */
+    size: number;
+    /** URL of the model, for model markers. */
+    model?: string;
+}
+
+/**
+ * The marker settings of a new annotation.
+ */
+export interface MarkerStyle {
+    marker: MarkerKind;
+    size: number;
+    model?: string;
+}
+
+/**
+ * Default marker settings.
+ */
+export const defaultMarkerStyle: MarkerStyle = {
+    marker: 'pin',
+    size: 10.0,
+};
+
+/**
+ * A set of annotations, drawn at their positions. An annotation can be
+ * selected, to be moved, renamed or removed. Sets are exchanged as
+ * GeoJSON points, with the name and the marker settings as properties.
+ */
+export class AnnotationLayer {
+    /**
+     * Create a new layer.
+     * @param onChange Callback for changes of the annotations
+     * @param report Receiver of models that fail to load
+     */
+    public constructor(
+        onChange: (annotations: Annotation[]) => void = () => {},
+        report: LoadReport = warnOnFailure
+    ) {
+        this._onChange = onChange;
+        this._report = report;
+    }
+
+    /**
+     * Get the root of the markers, to be added to the scene.
+     * @returns The root
+     */
+    public root(): Three.Group {
+        return this._root;
+    }
+
+    /**
+     * Get all annotations.
+     * @returns The annotations
+     */
+    public annotations(): Annotation[] {
+        return this._annotations;
+    }
+
+    /**
+     * Add an annotation at a picked point.
+     * @param point The ECEF point
+     * @param style The marker settings
+     * @param name The name, numbered by default
+     * @returns The annotation
+     */
+    public add(
+        point: Three.Vector3,
+        style: MarkerStyle = defaultMarkerStyle,
+        name?: string
+    ): Annotation {
+        const id = this._nextId++;
+        const annotation: Annotation = {
+            id: id,
+            name: name !== undefined ? name : `Marker ${id}`,
+            ...ecefToGeodetic(point),
+            ...style,
+        };
+
+        this.insert(annotation);
+        this.changed();
+        return annotation;
+    }
+
+    /**
+     * Get the selected annotation.
+     * @returns The annotation, undefined if none is selected
+     */
+    public selected(): Annotation | undefined {
+        return this._selected;
+    }
+
+    /**
+     * Select an annotation.
+     * @param annotation The annotation, undefined to select none
+     */
+    public select(annotation: Annotation | undefined): void {
+        const previous = this._selected;
+        this._selected = annotation;
+        if (previous) {
+            this.redraw(previous);
+        }
+        if (annotation) {
+            this.redraw(annotation);
+        }
+    }
+
+    /**
+     * Find the annotation nearest to a screen position.
+     * @param ndc The position in normalized device coordinates
+     * @param camera The camera
+     * @param tolerance Largest accepted distance in NDC
+     * @returns The annotation, undefined if none is near
+     */
+    public pickAt(
+        ndc: Three.Vector2,
+        camera: Three.Camera,
+        tolerance: number = 0.03
+    ): Annotation | undefined {
+        let nearest: Annotation | undefined = undefined;
+        let nearestDistance = tolerance;
+        this._annotations.forEach((annotation) => {
+            const projected = anchorOf(annotation).project(camera);
+            if (projected.z < -1.0 || projected.z > 1.0) {
+                return;
+            }
+
+            const distance = ndc.distanceTo(
+                new Three.Vector2(projected.x, projected.y)
+            );
+            if (distance < nearestDistance) {
+                nearest = annotation;
+                nearestDistance = distance;
+            }
+        });
+
+        return nearest;
+    }
+
+    /**
+     * Move an annotation to a picked point.
+     * @param annotation The annotation
+     * @param point The ECEF point
+     */
+    public move(annotation: Annotation, point: Three.Vector3): void {
+        Object.assign(annotation, ecefToGeodetic(point));
+        this.redraw(annotation);
+        this.changed();
+    }
+
+    /**
+     * Rename an annotation.
+     * @param annotation The annotation
+     * @param name The new name
+     */
+    public rename(annotation: Annotation, name: string): void {
+        annotation.name = name;
+        this.redraw(annotation);
+        this.changed();
+    }
+
+    /**
+     * Remove an annotation.
+     * @param annotation The annotation
+     */
+    public remove(annotation: Annotation): void {
+        const index = this._annotations.indexOf(annotation);
+        if (index < 0) {
+            return;
+        }
+
+        this._annotations.splice(index, 1);
+        this.removeMarker(annotation);
+        if (this._selected === annotation) {
+            this._selected = undefined;
+        }
+        this.changed();
+    }
+
+    /**
+     * Remove all annotations.
+     */
+    public clear(): void {
+        this._annotations.forEach((annotation) =>
+            this.removeMarker(annotation)
+        );
+        this._annotations = [];
+        this._selected = undefined;
+        this.changed();
+    }
+
+    /**
+     * Animate the markers, called once per rendered frame.
+     */
+    public update(): void {
+        this._markers.forEach((marker) => {
+            const symbol = marker.getObjectByName('symbol');
+            if (symbol) {
+                symbol.rotateY(0.05);
+            }
+        });
+    }
+
+    /**
+     * Get the annotations as GeoJSON points.
+     * @returns The feature collection
+     */
+    public toGeoJson(): GeoJsonFeatureCollection {
+        return {
+            type: 'FeatureCollection',
+            features: this._annotations.map((annotation): GeoJsonFeature => ({
+                type: 'Feature',
+                geometry: {
+                    type: 'Point',
+                    coordinates: [
+                        annotation.longitude,
+                        annotation.latitude,
+                        annotation.height,
+                    ],
+                },
+                properties: {
+                    name: annotation.name,
+                    marker: annotation.marker,
+                    size: annotation.size,
+                    model: annotation.model,
+                },
+            })),
+        };
+    }
+
+    /**
+     * Add annotations from GeoJSON points, e.g. exported from another
+     * session. Positions are WGS84, with heights above the ellipsoid.
+     * Features that are not points, or whose positions are not finite
+     * or out of range, are skipped.
+     * @param data The GeoJSON data
+     * @returns The number of added annotations
+     */
+    public addGeoJson(data: GeoJson): number {
+        let added = 0;
+        geoJsonFeatures(data).forEach((feature, i) => {
+            const geometry = feature.geometry;
+            if (!geometry || geometry.type != 'Point') {
+                console.warn(`Feature ${i} is not a point, skipped`);
+                return;
+            }
+
+            const [longitude, latitude, height] = geometry.coordinates;
+            if (
+                !isFinite(longitude) ||
+                !isFinite(latitude) ||
+                Math.abs(latitude) > 90.0 ||
+                (height !== undefined && !isFinite(height))
+            ) {
+                console.warn(`Feature ${i} has an invalid position, skipped`);
+                return;
+            }
+
+            const properties = feature.properties || {};
+            const marker = isMarkerKind(properties.marker)
+                ? properties.marker
+                : defaultMarkerStyle.marker;
+            const id = this._nextId++;
+            this.insert({
+                id: id,
+                name:
+                    typeof properties.name == 'string'
+                        ? properties.name
+                        : `Marker ${id}`,
+                marker: marker,
+                latitude: latitude,
+                longitude: longitude,
+                height: height !== undefined ? height : 0.0,
+                size:
+                    typeof properties.size == 'number'
+                        ? properties.size
+                        : defaultMarkerStyle.size,
+                model:
+                    typeof properties.model == 'string'
+                        ? properties.model
+                        : undefined,
+            });
+            ++added;
+        });
+
+        this.changed();
+        return added;
+    }
+
+    private insert(annotation: Annotation): void {
+        this._annotations.push(annotation);
+        this.redraw(annotation);
+    }
+
+    private changed(): void {
+        this._onChange(this._annotations);
+    }
+
+    private redraw(annotation: Annotation): void {
+        this.removeMarker(annotation);
+
+        const anchor = anchorOf(annotation);
+        const up = anchor.clone().normalize();
+        const marker = new Three.Group();
+        marker.position.copy(anchor);
+        marker.quaternion.setFromUnitVectors(new Three.Vector3(0, 1, 0), up);
+
+        // Sprites are of constant screen size and not depth tested, so
+        // they are positioned relative to the anchor only.
+        const label = createLabel(annotation.name, 0.03);
+        if (annotation.marker == 'pin') {
+            const pin = createPinSprite(0.05);
+            marker.add(pin);
+            label.center.set(0.5, -0.05 / 0.03);
+        } else if (annotation.marker == 'symbol') {
+            marker.add(createSymbol(annotation.size));
+        } else if (annotation.marker == 'model' && annotation.model) {
+            this.addModel(marker, annotation);
+        }
+        marker.add(label);
+
+        if (this._selected === annotation) {
+            marker.add(createSelectionSprite(0.06));
+        }
+
+        this._markers.set(annotation.id, marker);
+        this._root.add(marker);
+    }
+
+    private addModel(marker: Three.Group, annotation: Annotation): void {
+        const url = annotation.model as string;
+        if (!this._models.has(url)) {
+            this._models.set(url, loadModel(url));
+        }
+
+        (this._models.get(url) as Promise<Three.Object3D>)
+            .then((model) => {
+                // The marker may have been redrawn meanwhile.
+                if (this._markers.get(annotation.id) !== marker) {
+                    return;
+                }
+
+                // Scale the model's largest extent to the size.
+                const extent = new Three.Box3()
+                    .setFromObject(model)
+                    .getSize(new Three.Vector3());
+                const copy = model.clone();
+                copy.name = 'model';
+                copy.scale.setScalar(
+                    annotation.size /
+                        Math.max(extent.x, extent.y, extent.z, 1e-6)
+                );
+                marker.add(copy);
+            })
+            .catch((e) => {
+                this._models.delete(url);
+                this._report(`Model ${url}`, e);
+            });
+    }
+
+    private removeMarker(annotation: Annotation): void {
+        const marker = this._markers.get(annotation.id);
+        if (!marker) {
+            return;
+        }
+
+        // Models are shared with the model cache, and only removed.
+        const model = marker.getObjectByName('model');
+        if (model) {
+            model.removeFromParent();
+        }
+        disposeOverlay(marker);
+        this._markers.delete(annotation.id);
+    }
+
+    private _onChange: (annotations: Annotation[]) => void;
+    private _report: LoadReport;
+    private _annotations: Annotation[] = [];
+    private _selected?: Annotation;
+    private _nextId = 1;
+    private _root = new Three.Group();
+    private _markers = new Map<number, Three.Group>();
+    private _models = new Map<string, Promise<Three.Object3D>>();
+}
+
+/**
+ * Load the annotations saved for a mission.
+ * @param mission The mission name
+ * @returns The annotations as GeoJSON, undefined if none are saved
+ */
+export function loadAnnotations(mission: string): GeoJson | undefined {
+    const saved = window.localStorage.getItem(storageKey(mission));
+    if (saved === null) {
+        return undefined;
+    }
+
+    try {
+        return validateGeoJson(JSON.parse(saved));
+    } catch (e) {
+        console.warn(
+            `Ignoring saved annotations for mission '${mission}': ${describeError(
+                e
+            )}`
+        );
+        return undefined;
+    }
+}
+
+/**
+ * Save the annotations of a mission.
+ * @param mission The mission name
+ * @param annotations The annotations as GeoJSON
+ */
+export function saveAnnotations(
+    mission: string,
+    annotations: GeoJsonFeatureCollection
+): void {
+    window.localStorage.setItem(
+        storageKey(mission),
+        JSON.stringify(annotations)
+    );
+}
+
+function storageKey(mission: string): string {
+    return `augmented-video.annotations.${mission}`;
+}
+
+function anchorOf(annotation: Annotation): Three.Vector3 {
+    const [x, y, z] = geodeticToEcef.forward([
+        annotation.longitude,
+        annotation.latitude,
+        annotation.height,
+    ]);
+    return new Three.Vector3(x, y, z);
+}
+
+/**
+ * Load a model, as Collada for .dae URLs and else as glTF.
+ */
+async function loadModel(url: string): Promise<Three.Object3D> {
+    if (/\.dae$/i.test(url)) {
+        return (await fetchCollada(url)).scene;
+    }
+
+    return (await fetchGltf(url)).scene;
+}
+
+/**
+ * Create a pin sprite of constant screen size, with its tip at the
+ * anchor.
+ */
+function createPinSprite(size: number): Three.Sprite {
+    const canvas = document.createElement('canvas');
+    canvas.width = 64;
+    canvas.height = 96;
+    const context = canvas.getContext('2d') as CanvasRenderingContext2D;
+    context.fillStyle = '#ff3030';
+    context.strokeStyle = '#ffffff';
+    context.lineWidth = 4;
+    context.beginPath();
+    context.arc(32, 32, 28, Math.PI * 0.8, Math.PI * 0.2);
+    context.lineTo(32, 94);
+    context.closePath();
+    context.fill();
+    context.stroke();
+    context.fillStyle = '#ffffff';
+    context.beginPath();
+    context.arc(32, 32, 10, 0, Math.PI * 2.0);
+    context.fill();
+
+    return createMarkerSprite(canvas, size, new Three.Vector2(0.5, 0.0));
+}
+
+/**
+ * Create a ring sprite marking the selected annotation.
+ */
+function createSelectionSprite(size: number): Three.Sprite {
+    const canvas = document.createElement('canvas');
+    canvas.width = 64;
+    canvas.height = 64;
+    const context = canvas.getContext('2d') as CanvasRenderingContext2D;
+    context.strokeStyle = '#ffff00';
+    context.lineWidth = 6;
+    context.beginPath();
+    context.arc(32, 32, 28, 0, Math.PI * 2.0);
+    context.stroke();
+
+    return createMarkerSprite(canvas, size, new Three.Vector2(0.5, 0.5));
+}
+
+function createMarkerSprite(
+    canvas: HTMLCanvasElement,
+    size: number,
+    center: Three.Vector2
+): Three.Sprite {
+    const texture = new Three.CanvasTexture(canvas);
+    texture.minFilter = Three.LinearFilter;
+    const sprite = new Three.Sprite(
+        new Three.SpriteMaterial({
+            map: texture,
+            sizeAttenuation: false,
+            depthTest: false,
+            depthWrite: false,
+        })
+    );
+    sprite.center.copy(center);
+    sprite.scale.set((size * canvas.width) / canvas.height, size, 1.0);
+    sprite.renderOrder = 4;
+
+    return sprite;
+}
+
+/**
+ * Check if a GeoJSON property value is a marker kind.
+ */
+function isMarkerKind(value: unknown): value is MarkerKind {
+    return markerKinds.some((kind) => kind == value);
+}
+
+/**
+ * Create a symbol hovering over the anchor, in the marker's frame with y
+ * up.
+ */
+function createSymbol(size: number): Three.Mesh {
+    const symbol = new Three.Mesh(
+        new Three.OctahedronGeometry(size / 2.0),
+        new Three.MeshLambertMaterial({ color: symbolColor })
+    );
+    symbol.name = 'symbol';
+    symbol.scale.set(0.6, 1.0, 0.6);
+    symbol.position.set(0.0, size, 0.0);
+    symbol.renderOrder = 2;
+
+    return symbol;
+}
+
+const symbolColor = new Three.Color(0xff8000);
@@ -3,9 +3,14 @@ import {
     ColladaLoader,
     Collada,
 } from 'three/examples/jsm/loaders/ColladaLoader';
-import { degToRad } from 'three/src/math/MathUtils';
+import { GLTF, GLTFLoader } from 'three/examples/jsm/loaders/GLTFLoader';
+import { degToRad, radToDeg } from 'three/src/math/MathUtils';
 import proj4 from 'proj4';
 
+import { LensCalibration } from './lens_calibration';
+import { attachBvh } from './terrain_bvh';
+import { LoadError } from './validation';
+
 /**
  * Camera metadata. All angles are in degrees.
  */
@@ -18,6 +23,85 @@ export interface Metadata {
     roll: number;
     hfov: number;
     vfov: number;
+    calibration?: LensCalibration;
+}
+
+/**
+ * Camera metadata with a WGS84 geodetic position, and with the attitude
+ * relative to the local North-East-Down frame. All angles are in degrees,
+ * the height is ellipsoid height in meters.
+ */
+export interface GeodeticMetadata {
+    latitude: number;
+    longitude: number;
+    height: number;
+    yaw: number;
+    pitch: number;
+    roll: number;
+    hfov: number;
+    vfov: number;
+    calibration?: LensCalibration;
+}
+
+/**
+ * Camera metadata in either ECEF or geodetic form.
+ */
+export type CameraMetadata = Metadata | GeodeticMetadata;
+
+/**
+ * Check if camera metadata is in geodetic form.
+ * @param metadata The metadata
+ * @returns True if geodetic
+ */
+export function isGeodeticMetadata(
+    metadata: CameraMetadata
+): metadata is GeodeticMetadata {
+    return 'latitude' in metadata;
+}
+
+/**
+ * Convert geodetic metadata to ECEF metadata. The position is converted
+ * to ECEF, and the attitude is rotated from the local North-East-Down
+ * frame to the ECEF frame.
+ * @param metadata The geodetic metadata
+ * @returns The ECEF metadata
+ */
+export function geodeticToEcefMetadata(metadata: GeodeticMetadata): Metadata {
+    const { latitude, longitude, height, ...rest } = metadata;
+
+    const rotation = nedToEcefRotation(
+        degToRad(latitude),
+        degToRad(longitude)
+    ).multiply(
+        matrixYPR(
+            degToRad(metadata.yaw),
+            degToRad(metadata.pitch),
+            degToRad(metadata.roll)
+        )
+    );
+    const [yaw, pitch, roll] = decomposeYPR(rotation);
+    const [x, y, z] = geodeticToEcef.forward([longitude, latitude, height]);
+
+    return {
+        ...rest,
+        x: x,
+        y: y,
+        z: z,
+        yaw: radToDeg(yaw),
+        pitch: radToDeg(pitch),
+        roll: radToDeg(roll),
+    };
+}
+
+/**
+ * Get camera metadata in ECEF form.
+ * @param metadata The metadata, in either form
+ * @returns The ECEF metadata
+ */
+export function toEcefMetadata(metadata: CameraMetadata): Metadata {
+    return isGeodeticMetadata(metadata)
+        ? geodeticToEcefMetadata(metadata)
+        : metadata;
 }
 
 /**
@@ -36,6 +120,12 @@ export function aspectRatioFromFov(hFov: number, vFov: number): number {
     return width / height;
 }
 
+/**
+ * The layer of terrain meshes, in addition to the default layer. Picking
+ * and other terrain queries can be restricted to it.
+ */
+export const terrainLayer = 1;
+
 /**
  * Create a new empty scene.
  * @returns The scene
@@ -64,15 +154,22 @@ export function createPerspectiveCamera(): Three.PerspectiveCamera {
 }
 
 /**
- * Update the camera with new metadata
+ * Update the camera with new metadata. Geodetic metadata is converted
+ * to ECEF, regardless of toEcef.
  * @param camera The camera to update
- * @param metadata The metadata
+ * @param cameraMetadata The metadata
+ * @param toEcef Flag to treat the yaw, pitch and roll as ECEF frame angles
  */
 export function setCameraMetadata(
     camera: Three.PerspectiveCamera,
-    metadata: Metadata,
+    cameraMetadata: CameraMetadata,
     toEcef: boolean = true
 ): void {
+    if (isGeodeticMetadata(cameraMetadata)) {
+        toEcef = true;
+    }
+    const metadata = toEcefMetadata(cameraMetadata);
+
     camera.position.set(metadata.x, metadata.y, metadata.z);
     const camRot = cameraRotationYPR(
         degToRad(metadata.yaw),
@@ -83,6 +180,23 @@ export function setCameraMetadata(
     camera.setRotationFromMatrix(camRot);
     camera.fov = metadata.vfov;
     camera.aspect = aspectRatioFromFov(metadata.hfov, metadata.vfov);
+
+    // Shift the frustum for the principal point offset. The full view is
+    // one unit high, to keep the aspect ratio.
+    const calibration = metadata.calibration;
+    if (calibration && (calibration.cx || calibration.cy)) {
+        camera.setViewOffset(
+            camera.aspect,
+            1.0,
+            -(calibration.cx || 0.0) * camera.aspect,
+            -(calibration.cy || 0.0),
+            camera.aspect,
+            1.0
+        );
+    } else {
+        camera.clearViewOffset();
+    }
+
     camera.updateMatrixWorld();
     camera.updateProjectionMatrix();
 }
@@ -187,11 +301,37 @@ export function fetchImage(url: string): Promise<HTMLImageElement> {
             (image) => resolve(image),
             (progress) =>
                 console.log(`${url} has loaded ${progress.loaded} bytes`),
-            (error) => reject(error)
+            (error) => reject(new LoadError(url, 'not an image', error))
         );
     });
 }
 
+/**
+ * Async fetch of a video. The promise is resolved when the first frame
+ * is available.
+ * @param url Video URL
+ * @returns Promise carrying the video element
+ */
+export function fetchVideo(url: string): Promise<HTMLVideoElement> {
+    return new Promise((resolve, reject) => {
+        const video = document.createElement('video');
+        video.crossOrigin = 'anonymous';
+        video.muted = true;
+        video.playsInline = true;
+        video.preload = 'auto';
+        video.onloadeddata = () => resolve(video);
+        video.onerror = () =>
+            reject(
+                new LoadError(
+                    url,
+                    video.error ? video.error.message : 'not a video'
+                )
+            );
+        video.src = url;
+        video.load();
+    });
+}
+
 /**
  * Async fetch of a collada model.
  * @param url Collada URL.
@@ -205,68 +345,236 @@ export function fetchCollada(url: string): Promise<Collada> {
             (collada) => resolve(collada),
             (progress) =>
                 console.log(`${url} has loaded ${progress.loaded} bytes`),
-            (error) => reject(error)
+            (error) => reject(new LoadError(url, 'not a Collada model', error))
+        );
+    });
+}
+
+/**
+ * Async fetch of a glTF or GLB model.
+ * @param url glTF URL.
+ * @returns Promise carrying the model.
+ */
+export function fetchGltf(url: string): Promise<GLTF> {
+    return new Promise((resolve, reject) => {
+        const loader = new GLTFLoader();
+        loader.load(
+            url,
+            (gltf) => resolve(gltf),
+            (progress) =>
+                console.log(`${url} has loaded ${progress.loaded} bytes`),
+            (error) => reject(new LoadError(url, 'not a glTF model', error))
         );
     });
 }
 
 /**
- * Async fetch and decode a JSON object.
+ * Async fetch and decode a JSON object. Without a validation function
+ * the object is assumed to be a T.
  * @param url JSON url
+ * @param validate Function checking the object, throwing if invalid
+ * @param signal Signal to abort the request
  * @returns Promise with decoded object
  */
-export async function fetchJSON<T>(url: string): Promise<T> {
-    const response = await fetch(url);
-    const body = await response.json();
-    return body;
+export async function fetchJSON<T>(
+    url: string,
+    validate?: (value: unknown) => T,
+    signal?: AbortSignal
+): Promise<T> {
+    const response = await fetchResponse(url, signal);
+
+    let body: unknown;
+    try {
+        body = await response.json();
+    } catch (e) {
+        throw new LoadError(url, 'not valid JSON', e);
+    }
+
+    if (!validate) {
+        return body as T;
+    }
+
+    try {
+        return validate(body);
+    } catch (e) {
+        throw new LoadError(url, 'invalid content', e);
+    }
+}
+
+/**
+ * Async fetch of a text document.
+ * @param url Text URL
+ * @returns Promise carrying the text
+ */
+export async function fetchText(url: string): Promise<string> {
+    const response = await fetchResponse(url);
+    return response.text();
+}
+
+/**
+ * Async fetch of a blob, e.g. an image to decode.
+ * @param url Blob URL
+ * @param signal Signal to abort the request
+ * @returns Promise carrying the blob
+ */
+export async function fetchBlob(
+    url: string,
+    signal?: AbortSignal
+): Promise<Blob> {
+    const response = await fetchResponse(url, signal);
+    return response.blob();
+}
+
+/**
+ * Async fetch of binary data.
+ * @param url Data URL
+ * @returns Promise carrying the data
+ */
+export async function fetchArrayBuffer(url: string): Promise<ArrayBuffer> {
+    const response = await fetchResponse(url);
+    return response.arrayBuffer();
+}
+
+/**
+ * A coordinate converter to ECEF.
+ */
+export interface EcefConverter {
+    forward(coord: number[]): number[];
+}
+
+/**
+ * Let the user save data as a file download.
+ * @param data The data
+ * @param filename Suggested file name
+ */
+export function downloadBlob(data: Blob, filename: string): void {
+    const url = URL.createObjectURL(data);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = filename;
+    link.click();
+
+    // Release the data once the download has started.
+    setTimeout(() => URL.revokeObjectURL(url), 0);
 }
 
 /**
  * Create a cs converter between UTM and ECEF.
  * @param zone UTM zone number
+ * @param south Flag for a southern hemisphere zone
  * @returns The converter from UTM to ECEF
  */
-export function createUtmToEcefConverter(zone: number): proj4.Converter {
-    const utm = `+proj=utm +zone=${zone} +datum=WGS84 +units=m +no_defs`;
+export function createUtmToEcefConverter(
+    zone: number,
+    south: boolean = false
+): proj4.Converter {
+    const utm = `+proj=utm +zone=${zone}${
+        south ? ' +south' : ''
+    } +datum=WGS84 +units=m +no_defs`;
     const ecef = '+proj=geocent +datum=WGS84 +units=m +no_defs';
 
     return proj4(utm, ecef);
 }
 
 /**
- * Rewrite a Collada terrain model. Convert from UTM to ECEF and add
- * vertex normals.
+ * Converter between WGS84 geodetic coordinates and ECEF. The geodetic
+ * coordinates are [longitude, latitude, ellipsoid height], with the
+ * angles in degrees.
+ */
+export const geodeticToEcef = proj4(
+    '+proj=longlat +datum=WGS84 +no_defs',
+    '+proj=geocent +datum=WGS84 +units=m +no_defs'
+);
+
+/**
+ * Create a rotation matrix from the local North-East-Down frame at a
+ * geodetic position to the ECEF frame.
+ * @param latitude Latitude angle
+ * @param longitude Longitude angle
+ * @returns The matrix
+ */
+export function nedToEcefRotation(
+    latitude: number,
+    longitude: number
+): Three.Matrix4 {
+    const sLat = Math.sin(latitude);
+    const cLat = Math.cos(latitude);
+    const sLon = Math.sin(longitude);
+    const cLon = Math.cos(longitude);
+
+    // The columns are the north, east and down axes in ECEF.
+    const matrix = new Three.Matrix4();
+    matrix.set(
+        -sLat * cLon,
+        -sLon,
+        -cLat * cLon,
+        0.0,
+        -sLat * sLon,
+        cLon,
+        -cLat * sLon,
+        0.0,
+        cLat,
+        0.0,
+        -sLat,
+        0.0,
+        0.0,
+        0.0,
+        0.0,
+        1.0
+    );
+
+    return matrix;
+}
+
+/**
+ * Rewrite a Collada (or glTF) terrain model. Convert from the model's CRS
+ * to ECEF and add vertex normals. The converter is responsible for the
+ * vertical datum of the model's heights. Indices, texture coordinates,
+ * vertex colors and material groups are kept, as are the original
+ * materials unless a replacement material is given.
+ *
+ * The model's coordinates are its CRS coordinates, with the height along
+ * the up axis: z (x, y, z) or y (x, -z, y) as in glTF. The transform of
+ * the model's root is ignored.
+ *
+ * The vertex positions are stored relative to the center of the model,
+ * and the returned group is positioned at the center. Absolute ECEF
+ * coordinates are too large for float32 vertices, while the model view
+ * matrices are composed in double precision before being uploaded.
  * @param model
  * @param csConv
+ * @param material Optional material replacing the original materials
  * @returns The rewritten model
  */
 export function rewriteUTMTerrainModel(
-    model: Collada,
-    csConv: proj4.Converter
+    model: Collada | GLTF,
+    csConv: EcefConverter,
+    material?: Three.Material,
+    upAxis: 'y' | 'z' = 'z'
 ): Three.Group {
     const group = new Three.Group();
-    const material = new Three.MeshBasicMaterial({
-        color: 0xff0000,
-        wireframe: false,
-    });
 
+    // Transforms are taken relative to the model's root.
+    model.scene.updateMatrixWorld(true);
+    const rootInverse = model.scene.matrixWorld.clone().invert();
+
+    // First pass: convert positions to ECEF, in double precision.
+    const converted: [Three.Mesh, Float64Array][] = [];
+    const center = new Three.Box3();
     model.scene.traverse((child) => {
         if (child instanceof Three.Mesh) {
             const childMesh = child as Three.Mesh;
-            childMesh.updateMatrixWorld();
             if (
                 childMesh.geometry.hasAttribute('position') &&
-                childMesh.geometry.getAttribute('position').itemSize == 3 &&
-                !childMesh.geometry.index
+                childMesh.geometry.getAttribute('position').itemSize == 3
             ) {
                 // Get the positions for the current child.
                 const childPositions =
                     childMesh.geometry.getAttribute('position');
-
-                // Create a new attribute array.
-                const positions = new Three.BufferAttribute(
-                    new Float32Array(childPositions.array.length),
-                    3
+                const positions = new Float64Array(childPositions.count * 3);
+                const toModel = new Three.Matrix4().multiplyMatrices(
+                    rootInverse,
+                    childMesh.matrixWorld
                 );
 
                 // Populate the new array with coverted positions.
@@ -275,35 +583,78 @@ export function rewriteUTMTerrainModel(
                     const y = childPositions.getY(i);
                     const z = childPositions.getZ(i);
 
-                    // Transform the coordinate to world space.
-                    const pos = childMesh.localToWorld(
-                        new Three.Vector3(x, y, z)
+                    // Transform the coordinate to model space.
+                    const pos = new Three.Vector3(x, y, z).applyMatrix4(
+                        toModel
                     );
 
                     // Transform using the coordinate transform.
-                    const [xx, yy, zz] = csConv.forward([
-                        pos.x,
-                        pos.y,
-                        pos.z - 22, // This is dirty :-)
-                    ]);
-                    positions.setXYZ(i, xx, yy, zz);
+                    const [xx, yy, zz] = csConv.forward(
+                        upAxis == 'z'
+                            ? [pos.x, pos.y, pos.z]
+                            : [pos.x, -pos.z, pos.y]
+                    );
+                    positions.set([xx, yy, zz], i * 3);
+                    center.expandByPoint(new Three.Vector3(xx, yy, zz));
                 }
 
-                // Create mesh and add to the group.
-                const geometry = new Three.BufferGeometry();
-                geometry.setAttribute('position', positions);
+                converted.push([childMesh, positions]);
+            } else {
+                console.warn('Only supporting models with 3D positions');
+            }
+        }
+    });
+
+    const origin = center.isEmpty()
+        ? new Three.Vector3()
+        : center.getCenter(new Three.Vector3());
+    group.position.copy(origin);
 
-                // Add vertex normals and bounding box.
-                geometry.computeVertexNormals();
-                geometry.computeBoundingBox();
+    // Second pass: create meshes with positions relative to the origin.
+    converted.forEach(([childMesh, ecefPositions]) => {
+        const childGeometry = childMesh.geometry;
 
-                group.add(new Three.Mesh(geometry, material));
-            } else {
-                console.warn(
-                    'Only supporting non indexed models with position'
+        const positions = new Three.BufferAttribute(
+            new Float32Array(ecefPositions.length),
+            3
+        );
+        for (let i = 0; i < positions.count; ++i) {
+            positions.setXYZ(
+                i,
+                ecefPositions[i * 3] - origin.x,
+                ecefPositions[i * 3 + 1] - origin.y,
+                ecefPositions[i * 3 + 2] - origin.z
+            );
+        }
+
+        // Create mesh and add to the group. All attributes but the
+        // positions and normals are kept as they are.
+        const geometry = new Three.BufferGeometry();
+        geometry.setAttribute('position', positions);
+        Object.keys(childGeometry.attributes).forEach((name) => {
+            if (name != 'position' && name != 'normal') {
+                geometry.setAttribute(
+                    name,
+                    childGeometry.getAttribute(name).clone()
                 );
             }
+        });
+        if (childGeometry.index) {
+            geometry.setIndex(childGeometry.index.clone());
         }
+        childGeometry.groups.forEach((g) => {
+            geometry.addGroup(g.start, g.count, g.materialIndex);
+        });
+
+        // Add vertex normals and bounding box.
+        geometry.computeVertexNormals();
+        geometry.computeBoundingBox();
+
+        // The mesh is a terrain mesh, raycasted through a BVH.
+        const mesh = new Three.Mesh(geometry, material || childMesh.material);
+        mesh.layers.enable(terrainLayer);
+        attachBvh(mesh);
+        group.add(mesh);
     });
 
     return group;
@@ -320,7 +671,7 @@ export function rewriteUTMTerrainModel(
  */
 export async function fetchRewriteAndLoadColladaTerrainTiles(
     urls: string[],
-    csConv: proj4.Converter,
+    csConv: EcefConverter,
     rotations: Three.Quaternion = new Three.Quaternion()
 ): Promise<[Three.Box3, Three.Group[]]> {
     const bBox = new Three.Box3();
@@ -328,7 +679,9 @@ export async function fetchRewriteAndLoadColladaTerrainTiles(
     for (let i = 0; i < urls.length; ++i) {
         const origModel = await fetchCollada(urls[i]);
         const adjModel = rewriteUTMTerrainModel(origModel, csConv);
+        // Rotate around the ECEF origin, not the model's local origin.
         adjModel.setRotationFromQuaternion(rotations);
+        adjModel.position.applyQuaternion(rotations);
         bBox.expandByObject(adjModel);
         groups.push(adjModel);
     }
@@ -378,6 +731,41 @@ export function matrixYPR(
     return matrix;
 }
 
+/**
+ * Create a quaternion for the same rotation as matrixYPR.
+ * @param yaw Yaw angle
+ * @param pitch Pitch angle
+ * @param roll Roll angle
+ * @returns The quaternion
+ */
+export function quaternionYPR(
+    yaw: number,
+    pitch: number,
+    roll: number
+): Three.Quaternion {
+    // matrixYPR is Rz(yaw) * Ry(pitch) * Rx(roll), which is the ZYX order.
+    const euler = new Three.Euler(roll, pitch, yaw, 'ZYX');
+    return new Three.Quaternion().setFromEuler(euler);
+}
+
+/**
+ * Decompose a rotation into the yaw, pitch and roll angles of matrixYPR.
+ * @param rotation The rotation
+ * @returns The angles [yaw, pitch, roll]
+ */
+export function decomposeYPR(
+    rotation: Three.Quaternion | Three.Matrix4
+): [number, number, number] {
+    const euler = new Three.Euler();
+    if (rotation instanceof Three.Quaternion) {
+        euler.setFromQuaternion(rotation, 'ZYX');
+    } else {
+        euler.setFromRotationMatrix(rotation, 'ZYX');
+    }
+
+    return [euler.z, euler.y, euler.x];
+}
+
 /**
  * Create an adapted camera rotation matrix for the OpenGL camera
  * (negative z point forward).
@@ -401,3 +789,27 @@ export function cameraRotationYPR(
         return matrixYPR(yaw, pitch, roll);
     }
 }
+
+/**
+ * Fetch a URL, failing for network errors and HTTP error statuses.
+ */
+async function fetchResponse(
+    url: string,
+    signal?: AbortSignal
+): Promise<Response> {
+    let response: Response;
+    try {
+        response = await fetch(url, { signal: signal });
+    } catch (e) {
+        throw new LoadError(url, 'request failed', e);
+    }
+
+    if (!response.ok) {
+        throw new LoadError(
+            url,
+            `HTTP status ${response.status} ${response.statusText}`
+        );
+    }
+
+    return response;
+}
@@ -0,0 +1,234 @@
+import { GUI } from 'three/examples/jsm/libs/dat.gui.module';
+
+import {
+    ImageEnhancement,
+    defaultImageEnhancement,
+    loadImageEnhancement,
+    palettes,
+    saveImageEnhancement,
+} from './image_enhancement';
+import {
+    PoseOffsets,
+    loadPoseOffsets,
+    savePoseOffsets,
+    zeroPoseOffsets,
+} from './pose_offsets';
+
+/**
+ * A panel to adjust the pose offsets and the image adjustments of a sensor
+ * profile live. The settings of the profile are loaded when the panel is
+ * created or the profile is changed, and saved on request.
+ */
+export class CalibrationPanel {
+    /**
+     * Create a new panel.
+     * @param profile The sensor profile
+     * @param onChange Callback for changed offsets
+     * @param onEnhancementChange Callback for changed image adjustments
+     */
+    public constructor(
+        profile: string,
+        onChange: (offsets: PoseOffsets) => void,
+        onEnhancementChange: (enhancement: ImageEnhancement) => void
+    ) {
+        this._settings = { profile: profile };
+        this._offsets = loadPoseOffsets(profile);
+        this._enhancement = loadImageEnhancement(profile);
+        this._onChange = onChange;
+        this._onEnhancementChange = onEnhancementChange;
+
+        this._gui = new GUI({ name: 'Calibration', width: 300 });
+        this._gui
+            .add(this._settings, 'profile')
+            .name('Sensor profile')
+            .onFinishChange((value: string) => this.setProfile(value));
+
+        const changed = () => this._onChange(this._offsets);
+
+        const attitude = this._gui.addFolder('Attitude offsets (deg)');
+        (['yaw', 'pitch', 'roll'] as (keyof PoseOffsets)[]).forEach((key) =>
+            attitude
+                .add(this._offsets, key, -10.0, 10.0, 0.01)
+                .onChange(changed)
+        );
+
+        const position = this._gui.addFolder('Position offsets (m, NED)');
+        (['north', 'east', 'down'] as (keyof PoseOffsets)[]).forEach((key) =>
+            position
+                .add(this._offsets, key, -200.0, 200.0, 0.1)
+                .onChange(changed)
+        );
+
+        const fov = this._gui.addFolder('Field of view offsets (deg)');
+        (['hfov', 'vfov'] as (keyof PoseOffsets)[]).forEach((key) =>
+            fov.add(this._offsets, key, -10.0, 10.0, 0.01).onChange(changed)
+        );
+
+        const enhancementChanged = () =>
+            this._onEnhancementChange(this._enhancement);
+        const image = this._gui.addFolder('Image');
+        image
+            .add(this._enhancement, 'brightness', -1.0, 1.0, 0.01)
+            .onChange(enhancementChanged);
+        image
+            .add(this._enhancement, 'contrast', 0.0, 4.0, 0.01)
+            .onChange(enhancementChanged);
+        image
+            .add(this._enhancement, 'gamma', 0.1, 4.0, 0.01)
+            .onChange(enhancementChanged);
+        image
+            .add(this._enhancement, 'black', 0.0, 1.0, 0.01)
+            .onChange(enhancementChanged);
+        image
+            .add(this._enhancement, 'white', 0.0, 1.0, 0.01)
+            .onChange(enhancementChanged);
+        image
+            .add(this._enhancement, 'autoLevels')
+            .name('auto levels')
+            .onChange(enhancementChanged);
+        image
+            .add(this._enhancement, 'palette', palettes)
+            .onChange(enhancementChanged);
+
+        const actions = {
+            save: () => this.save(),
+            reload: () => this.setProfile(this._settings.profile),
+            reset: () => this.reset(),
+            resetImage: () => this.resetEnhancement(),
+        };
+        this._gui.add(actions, 'save').name('Save profile');
+        this._gui.add(actions, 'reload').name('Reload profile');
+        this._gui.add(actions, 'reset').name('Reset offsets');
+        this._gui.add(actions, 'resetImage').name('Reset image');
+    }
+
+    /**
+     * Get the current offsets.
+     * @returns The offsets
+     */
+    public offsets(): PoseOffsets {
+        return this._offsets;
+    }
+
+    /**
+     * Set the offsets, e.g. from a pose refinement.
+     * @param offsets The offsets
+     */
+    public setOffsets(offsets: PoseOffsets): void {
+        this.assign(offsets);
+    }
+
+    /**
+     * Get the current image adjustments.
+     * @returns The adjustments
+     */
+    public enhancement(): ImageEnhancement {
+        return this._enhancement;
+    }
+
+    /**
+     * Get the current sensor profile.
+     * @returns The profile name
+     */
+    public profile(): string {
+        return this._settings.profile;
+    }
+
+    /**
+     * Switch to another sensor profile, loading its settings.
+     * @param profile The profile name
+     */
+    public setProfile(profile: string): void {
+        this._settings.profile = profile;
+        this.assign(loadPoseOffsets(profile));
+        this.assignEnhancement(loadImageEnhancement(profile));
+    }
+
+    /**
+     * Save the settings for the current sensor profile.
+     */
+    public save(): void {
+        savePoseOffsets(this._settings.profile, this._offsets);
+        saveImageEnhancement(this._settings.profile, this._enhancement);
+    }
+
+    /**
+     * Set all offsets to zero.
+     */
+    public reset(): void {
+        this.assign(zeroPoseOffsets);
+    }
+
+    /**
+     * Set the image adjustments to the defaults.
+     */
+    public resetEnhancement(): void {
+        this.assignEnhancement(defaultImageEnhancement);
+    }
+
+    /**
+     * Adjust an offset by a step, e.g. from the keyboard.
+     * @param key The offset
+     * @param delta The step
+     */
+    public nudge(key: keyof PoseOffsets, delta: number): void {
+        this._offsets[key] += delta;
+        this._gui.updateDisplay();
+        this._onChange(this._offsets);
+    }
+
+    /**
+     * Show or hide the panel.
+     * @param visible Flag to show the panel
+     */
+    public setVisible(visible: boolean): void {
+        if (visible) {
+            this._gui.show();
+        } else {
+            this._gui.hide();
+        }
+        this._visible = visible;
+    }
+
+    /**
+     * Check if the panel is shown.
+     * @returns True if shown
+     */
+    public visible(): boolean {
+        return this._visible;
+    }
+
+    /**
+     * Remove the panel.
+     */
+    public dispose(): void {
+        this._gui.destroy();
+    }
+
+    /**
+     * Update the offsets in place, as the panel's controllers refer to the
+     * offsets object.
+     */
+    private assign(offsets: PoseOffsets): void {
+        Object.assign(this._offsets, offsets);
+        this._gui.updateDisplay();
+        this._onChange(this._offsets);
+    }
+
+    /**
+     * Update the image adjustments in place, as for the offsets.
+     */
+    private assignEnhancement(enhancement: ImageEnhancement): void {
+        Object.assign(this._enhancement, enhancement);
+        this._gui.updateDisplay();
+        this._onEnhancementChange(this._enhancement);
+    }
+
+    private _settings: { profile: string };
+    private _offsets: PoseOffsets;
+    private _enhancement: ImageEnhancement;
+    private _onChange: (offsets: PoseOffsets) => void;
+    private _onEnhancementChange: (enhancement: ImageEnhancement) => void;
+    private _gui: GUI;
+    private _visible = true;
+}
@@ -0,0 +1,299 @@
+import proj4 from 'proj4';
+
+import { EcefConverter, fetchText, geodeticToEcef } from './app_util';
+
+/**
+ * Vertical datum for the heights of a data source:
+ * - ellipsoid: the heights are WGS84 ellipsoid heights
+ * - constant: the heights are orthometric, with a constant geoid
+ *   undulation for the whole data set
+ * - geoid: the heights are orthometric, with the geoid undulation taken
+ *   from a geoid grid
+ */
+export type VerticalDatum =
+    | { type: 'ellipsoid' }
+    | { type: 'constant'; undulation: number }
+    | { type: 'geoid'; grid: GeoidGrid };
+
+/**
+ * A global or regional grid of geoid undulations (the geoid's height
+ * above the WGS84 ellipsoid), e.g. EGM96 or EGM2008.
+ */
+export class GeoidGrid {
+    /**
+     * Create a grid. The values are stored row by row from north to
+     * south, and within a row from west to east. All angles are in
+     * degrees.
+     * @param south Latitude of the southernmost row
+     * @param north Latitude of the northernmost row
+     * @param west Longitude of the westernmost column
+     * @param east Longitude of the easternmost column
+     * @param latStep Latitude spacing
+     * @param lonStep Longitude spacing
+     * @param values The undulations in meters
+     */
+    public constructor(
+        south: number,
+        north: number,
+        west: number,
+        east: number,
+        latStep: number,
+        lonStep: number,
+        values: Float32Array
+    ) {
+        this._north = north;
+        this._west = west;
+        this._latStep = latStep;
+        this._lonStep = lonStep;
+        this._rows = Math.round((north - south) / latStep) + 1;
+        this._columns = Math.round((east - west) / lonStep) + 1;
+        // Global grids may or may not repeat the first column at the end.
+        this._global = east - west >= 360.0 - lonStep - 1e-6;
+        this._values = values;
+
+        if (values.length != this._rows * this._columns) {
+            throw new Error(
+                `Geoid grid has ${values.length} values, expected ${
+                    this._rows * this._columns
+                }`
+            );
+        }
+    }
+
+    /**
+     * Get the geoid undulation at a position, using bilinear
+     * interpolation.
+     * @param latitude Latitude in degrees
+     * @param longitude Longitude in degrees
+     * @returns The undulation in meters
+     * @throws Error if the position is outside the grid
+     */
+    public undulation(latitude: number, longitude: number): number {
+        const row = (this._north - latitude) / this._latStep;
+        let column = (longitude - this._west) / this._lonStep;
+        if (this._global) {
+            // Wrap into [west, west + 360).
+            const columns = 360.0 / this._lonStep;
+            column = ((column % columns) + columns) % columns;
+        }
+
+        if (
+            !(row >= 0 && row <= this._rows - 1) ||
+            !(column >= 0 && (this._global || column <= this._columns - 1))
+        ) {
+            throw new Error(
+                `Position ${latitude}, ${longitude} is outside the geoid grid`
+            );
+        }
+
+        // The columns of a global grid wrap around at the seam.
+        const r0 = Math.min(Math.floor(row), this._rows - 2);
+        const c0 = this._global
+            ? Math.floor(column)
+            : Math.min(Math.floor(column), this._columns - 2);
+        const fr = row - r0;
+        const fc = column - c0;
+
+        const v00 = this.value(r0, c0);
+        const v01 = this.value(r0, c0 + 1);
+        const v10 = this.value(r0 + 1, c0);
+        const v11 = this.value(r0 + 1, c0 + 1);
+
+        return (
+            (v00 * (1.0 - fc) + v01 * fc) * (1.0 - fr) +
+            (v10 * (1.0 - fc) + v11 * fc) * fr
+        );
+    }
+
+    private value(row: number, column: number): number {
+        return this._values[row * this._columns + (column % this._columns)];
+    }
+
+    private _north: number;
+    private _west: number;
+    private _latStep: number;
+    private _lonStep: number;
+    private _rows: number;
+    private _columns: number;
+    private _global: boolean;
+    private _values: Float32Array;
+}
+
+/**
+ * Parse a geoid grid in the NGA text format (as in WW15MGH.GRD for
+ * EGM96). The header is south, north, west, east, latitude spacing and
+ * longitude spacing, followed by the undulations from north to south.
+ * @param text The grid file
+ * @returns The grid
+ */
+export function parseGeoidGrid(text: string): GeoidGrid {
+    const numbers = text.trim().split(/\s+/).map(Number);
+    if (numbers.length < 6 || numbers.some(isNaN)) {
+        throw new Error('Malformed geoid grid');
+    }
+
+    const [south, north, west, east, latStep, lonStep] = numbers;
+    return new GeoidGrid(
+        south,
+        north,
+        west,
+        east,
+        latStep,
+        lonStep,
+        new Float32Array(numbers.slice(6))
+    );
+}
+
+/**
+ * Async fetch of a geoid grid in the NGA text format.
+ * @param url Grid URL
+ * @returns Promise carrying the grid
+ */
+export async function fetchGeoidGrid(url: string): Promise<GeoidGrid> {
+    return parseGeoidGrid(await fetchText(url));
+}
+
+/**
+ * Register a named coordinate reference system, e.g. an EPSG code, with
+ * its proj4 or WKT definition.
+ * @param name The name, e.g. 'EPSG:3006'
+ * @param definition The definition
+ */
+export function registerCrs(name: string, definition: string): void {
+    proj4.defs(name, definition);
+}
+
+/**
+ * Resolve a coordinate reference system to something proj4 understands.
+ * Accepted are registered names, the built-in EPSG codes (WGS84, the UTM
+ * zones on WGS84 and ETRS89, SWEREF99 and a few national grids), and
+ * proj4 or WKT definitions.
+ * @param crs The coordinate reference system
+ * @returns The name or definition to give proj4
+ */
+export function resolveCrs(crs: string): string {
+    crs = crs.trim();
+    if (crs.startsWith('+') || crs.includes('[')) {
+        // A proj4 or WKT definition.
+        return crs;
+    }
+
+    const name = crs.toUpperCase();
+    if (proj4.defs(name) !== undefined) {
+        return name;
+    }
+
+    const definition = builtInDefinition(name);
+    if (definition === undefined) {
+        throw new Error(`Unknown coordinate reference system ${crs}`);
+    }
+
+    registerCrs(name, definition);
+    return name;
+}
+
+/**
+ * Create a converter from a coordinate reference system, with a vertical
+ * datum for the heights, to ECEF.
+ * @param crs The coordinate reference system (see resolveCrs)
+ * @param verticalDatum The vertical datum
+ * @returns The converter
+ */
+export function createCrsToEcefConverter(
+    crs: string,
+    verticalDatum: VerticalDatum = { type: 'ellipsoid' }
+): EcefConverter {
+    const toGeodetic = proj4(resolveCrs(crs), 'EPSG:4326');
+
+    return {
+        forward: (coord: number[]): number[] => {
+            const [longitude, latitude] = toGeodetic.forward([
+                coord[0],
+                coord[1],
+            ]);
+            const height =
+                coord[2] + geoidUndulation(verticalDatum, latitude, longitude);
+
+            return geodeticToEcef.forward([longitude, latitude, height]);
+        },
+    };
+}
+
+/**
+ * Get the geoid undulation of a vertical datum.
+ * @param verticalDatum The vertical datum
+ * @param latitude Latitude in degrees
+ * @param longitude Longitude in degrees
+ * @returns The undulation in meters
+ */
+export function geoidUndulation(
+    verticalDatum: VerticalDatum,
+    latitude: number,
+    longitude: number
+): number {
+    switch (verticalDatum.type) {
+        case 'constant':
+            return verticalDatum.undulation;
+        case 'geoid':
+            return verticalDatum.grid.undulation(latitude, longitude);
+        default:
+            return 0.0;
+    }
+}
+
+/**
+ * Get the proj4 definition of a built-in EPSG code.
+ */
+function builtInDefinition(name: string): string | undefined {
+    const match = name.match(/^EPSG:(\d+)$/);
+    if (!match) {
+        return undefined;
+    }
+
+    const code = Number(match[1]);
+    if (code > 32600 && code <= 32660) {
+        return utmDefinition(code - 32600, false, 'datum=WGS84');
+    } else if (code > 32700 && code <= 32760) {
+        return utmDefinition(code - 32700, true, 'datum=WGS84');
+    } else if (code >= 25828 && code <= 25838) {
+        // ETRS89 / UTM zones 28N to 38N.
+        return utmDefinition(code - 25800, false, 'ellps=GRS80');
+    } else if (code >= 28348 && code <= 28358) {
+        // GDA94 / MGA zones 48 to 58.
+        return utmDefinition(code - 28300, true, 'ellps=GRS80');
+    } else if (code >= 3007 && code <= 3018) {
+        // SWEREF99 local projections.
+        return sweref99Local(code);
+    }
+
+    return nationalGrids[code];
+}
+
+function utmDefinition(zone: number, south: boolean, datum: string): string {
+    return `+proj=utm +zone=${zone}${
+        south ? ' +south' : ''
+    } +${datum} +units=m +no_defs`;
+}
+
+function sweref99Local(code: number): string {
+    const meridians = [
+        12.0, 13.5, 15.0, 16.5, 18.0, 14.25, 15.75, 17.25, 18.75, 20.25, 21.75,
+        23.25,
+    ];
+    return `+proj=tmerc +lat_0=0 +lon_0=${
+        meridians[code - 3007]
+    } +k=1 +x_0=150000 +y_0=0 +ellps=GRS80 +units=m +no_defs`;
+}
+
+const nationalGrids: { [code: number]: string } = {
+    // SWEREF99 TM.
+    3006: '+proj=utm +zone=33 +ellps=GRS80 +units=m +no_defs',
+    // RT90 2.5 gon V.
+    3021: '+proj=tmerc +lat_0=0 +lon_0=15.80827777777778 +k=1 +x_0=1500000 +y_0=0 +ellps=bessel +towgs84=414.1,41.3,603.1,-0.855,2.141,-7.023,0 +units=m +no_defs',
+    // ETRS89 / TM35FIN.
+    3067: '+proj=utm +zone=35 +ellps=GRS80 +units=m +no_defs',
+    // RGF93 / Lambert-93.
+    2154: '+proj=lcc +lat_1=49 +lat_2=44 +lat_0=46.5 +lon_0=3 +x_0=700000 +y_0=6600000 +ellps=GRS80 +units=m +no_defs',
+    // OSGB36 / British National Grid.
+    27700: '+proj=tmerc +lat_0=49 +lon_0=-2 +k=0.9996012717 +x_0=400000 +y_0=-100000 +ellps=airy +towgs84=446.448,-125.157,542.06,0.15,0.247,0.842,-20.489 +units=m +no_defs',
+};
@@ -0,0 +1,164 @@
+import { LoadReport, describeError } from './validation';
+
+/**
+ * The kinds of diagnostics entries.
+ */
+export type DiagnosticLevel = 'loaded' | 'warning' | 'error';
+
+/**
+ * An on-screen list of what has loaded, and of warnings and failures,
+ * kept for the whole session. Entries are keyed by item, so a new entry
+ * for an item replaces the old one. The oldest entries are dropped when
+ * there are too many.
+ */
+export class DiagnosticsPanel {
+    /**
+     * Create a new panel, hidden until there is an error.
+     * @param maxEntries Maximum number of entries kept
+     */
+    public constructor(maxEntries: number = 200) {
+        this._maxEntries = maxEntries;
+
+        this._element = document.createElement('div');
+        Object.assign(this._element.style, {
+            position: 'absolute',
+            left: '0px',
+            bottom: '0px',
+            maxWidth: '50%',
+            maxHeight: '40%',
+            overflowY: 'auto',
+            padding: '4px 8px',
+            zIndex: '200',
+            background: 'rgba(0, 0, 0, 0.7)',
+            fontFamily: 'monospace',
+            fontSize: '12px',
+            display: 'none',
+        });
+        document.body.append(this._element);
+    }
+
+    /**
+     * Report an item that has loaded.
+     * @param item The item, e.g. a layer
+     * @param detail Optional detail, e.g. a count
+     */
+    public loaded(item: string, detail?: string): void {
+        this.add('loaded', item, detail);
+    }
+
+    /**
+     * Report a warning about an item.
+     * @param item The item
+     * @param message The warning
+     */
+    public warn(item: string, message: string): void {
+        console.warn(`${item}: ${message}`);
+        this.add('warning', item, message);
+    }
+
+    /**
+     * Report an item that failed to load. Shows the panel.
+     * @param item The item
+     * @param error The error
+     */
+    public failed(item: string, error: unknown): void {
+        console.warn(`${item}: ${describeError(error)}`);
+        this.add('error', item, describeError(error));
+        this.setVisible(true);
+    }
+
+    /**
+     * Get a load report that reports to the panel.
+     * @returns The report
+     */
+    public reporter(): LoadReport {
+        return (item, error) => {
+            if (error !== undefined) {
+                this.failed(item, error);
+            } else {
+                this.loaded(item);
+            }
+        };
+    }
+
+    /**
+     * Get the number of entries of a level.
+     * @param level The level
+     * @returns The number of entries
+     */
+    public count(level: DiagnosticLevel): number {
+        let count = 0;
+        this._entries.forEach((entry) => {
+            if (entry.level == level) {
+                ++count;
+            }
+        });
+        return count;
+    }
+
+    /**
+     * Show or hide the panel.
+     * @param visible Flag to show the panel
+     */
+    public setVisible(visible: boolean): void {
+        this._element.style.display = visible ? 'block' : 'none';
+    }
+
+    /**
+     * Check if the panel is shown.
+     * @returns True if shown
+     */
+    public visible(): boolean {
+        return this._element.style.display != 'none';
+    }
+
+    /**
+     * Remove the panel.
+     */
+    public dispose(): void {
+        this._element.remove();
+    }
+
+    private add(level: DiagnosticLevel, item: string, detail?: string): void {
+        // Re-insert to move the item last.
+        this._entries.delete(item);
+        this._entries.set(item, { level: level, detail: detail });
+        if (this._entries.size > this._maxEntries) {
+            this._entries.delete(this._entries.keys().next().value);
+        }
+
+        this.updateElement();
+    }
+
+    private updateElement(): void {
+        const summary = document.createElement('div');
+        summary.style.color = '#ffffff';
+        summary.textContent = `${this.count('loaded')} loaded, ${this.count(
+            'warning'
+        )} warnings, ${this.count('error')} errors`;
+
+        const lines = [summary];
+        this._entries.forEach((entry, item) => {
+            const line = document.createElement('div');
+            line.style.color = levelColors[entry.level];
+            line.textContent =
+                entry.detail !== undefined ? `${item}: ${entry.detail}` : item;
+            lines.push(line);
+        });
+
+        this._element.replaceChildren(...lines);
+    }
+
+    private _maxEntries: number;
+    private _element: HTMLDivElement;
+    private _entries = new Map<
+        string,
+        { level: DiagnosticLevel; detail?: string }
+    >();
+}
+
+const levelColors: { [level: string]: string } = {
+    loaded: '#80ff80',
+    warning: '#ffff00',
+    error: '#ff6060',
+};
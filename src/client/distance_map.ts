@@ -0,0 +1,132 @@
+import * as Three from 'three';
+
+/**
+ * Create a material writing the distance from the camera, divided by the
+ * given far distance, packed into RGBA (see packDepthToRGBA in Three's
+ * shader chunks). The distance is the Euclidean distance, not the depth
+ * along the view direction.
+ * @returns The material, with the uniform uFar
+ */
+export function createDistanceMaterial(): Three.ShaderMaterial {
+    return new Three.ShaderMaterial({
+        vertexShader: distanceVertexSource,
+        fragmentShader: distanceFragmentSource,
+        side: Three.DoubleSide,
+        uniforms: {
+            uFar: { value: 1.0 },
+        },
+    });
+}
+
+/**
+ * Render a distance map of the meshes below a root. The map is cleared to
+ * the far distance, and the renderer's render target and clear color are
+ * restored afterwards.
+ * @param renderer The renderer
+ * @param target The render target for the map
+ * @param root The root of the meshes
+ * @param camera The camera
+ * @param material A material from createDistanceMaterial
+ * @param cubeFace The face to render, if the target is a cube map
+ */
+export function renderDistanceMap(
+    renderer: Three.WebGLRenderer,
+    target: Three.WebGLRenderTarget,
+    root: Three.Object3D,
+    camera: Three.PerspectiveCamera,
+    material: Three.ShaderMaterial,
+    cubeFace: number = 0
+): void {
+    material.uniforms.uFar.value = camera.far;
+
+    const renderTarget = renderer.getRenderTarget();
+    const clearColor = renderer.getClearColor(new Three.Color());
+    const clearAlpha = renderer.getClearAlpha();
+
+    renderer.setRenderTarget(target, cubeFace);
+    renderer.setClearColor(0xffffff, 1.0);
+    renderWithMaterial(renderer, root, camera, material);
+
+    renderer.setRenderTarget(renderTarget);
+    renderer.setClearColor(clearColor, clearAlpha);
+}
+
+/**
+ * Unpack a distance read back from a distance map.
+ * @param pixels The RGBA bytes
+ * @param offset Offset to the pixel
+ * @returns The distance as a fraction of the far distance, or undefined
+ * if nothing was rendered to the pixel
+ */
+export function unpackDistance(
+    pixels: Uint8Array,
+    offset: number = 0
+): number | undefined {
+    const [r, g, b, a] = pixels.subarray(offset, offset + 4);
+    if (r == 255 && g == 255 && b == 255 && a == 255) {
+        return undefined;
+    }
+
+    const downscale = 255.0 / 256.0 / 255.0;
+    return (
+        downscale *
+        (r / (256.0 * 256.0 * 256.0) + g / (256.0 * 256.0) + b / 256.0 + a)
+    );
+}
+
+/**
+ * Render all meshes below a root with a single material, restoring their
+ * own materials afterwards.
+ * @param renderer The renderer
+ * @param root The root of the meshes
+ * @param camera The camera
+ * @param material The material
+ */
+export function renderWithMaterial(
+    renderer: Three.WebGLRenderer,
+    root: Three.Object3D,
+    camera: Three.Camera,
+    material: Three.Material
+): void {
+    const meshes: Three.Mesh[] = [];
+    const materials: (Three.Material | Three.Material[])[] = [];
+    root.traverse((object) => {
+        if (object instanceof Three.Mesh) {
+            meshes.push(object);
+            materials.push(object.material);
+            object.material = material;
+        }
+    });
+
+    renderer.render(root, camera);
+
+    meshes.forEach((mesh, i) => (mesh.material = materials[i]));
+}
+
+const distanceVertexSource = `
+#include <common>
+#include <logdepthbuf_pars_vertex>
+
+varying float vDistance;
+
+void main() {
+    #include <begin_vertex>
+    #include <project_vertex>
+    #include <logdepthbuf_vertex>
+
+    vDistance = length(mvPosition.xyz);
+}`;
+
+const distanceFragmentSource = `
+#include <packing>
+#include <logdepthbuf_pars_fragment>
+
+uniform float uFar;
+
+varying float vDistance;
+
+void main() {
+    #include <logdepthbuf_fragment>
+
+    gl_FragColor = packDepthToRGBA(clamp(vDistance / uFar, 0.0, 1.0));
+}`;
@@ -0,0 +1,104 @@
+import { GUI } from 'three/examples/jsm/libs/dat.gui.module';
+
+import { ClipOptions, clipFormats, defaultClipOptions } from './frame_export';
+
+/**
+ * Actions of the export panel, implemented by the application.
+ */
+export interface ExportActions {
+    /** Export the current frame. */
+    exportFrame: () => void;
+    /** Start rendering a clip. */
+    exportClip: (options: ClipOptions) => void;
+    /** Stop rendering the clip. */
+    cancelClip: () => void;
+    /** Get the time of the current frame, in seconds. */
+    frameTime: () => number;
+}
+
+/**
+ * A panel to export the current frame, or to render a clip, with the
+ * video and everything drawn on top of it at the source resolution.
+ */
+export class ExportPanel {
+    /**
+     * Create a new panel.
+     * @param actions The actions
+     */
+    public constructor(actions: ExportActions) {
+        this._actions = actions;
+
+        this._gui = new GUI({ name: 'Export', width: 300 });
+        this._gui.add(this._status, 'text').name('Status').listen();
+        this._gui
+            .add(
+                { exportFrame: () => this._actions.exportFrame() },
+                'exportFrame'
+            )
+            .name('Export frame');
+
+        const clip = this._gui.addFolder('Clip');
+        clip.add(this._clip, 'start', 0.0).name('Start (s)').listen();
+        clip.add(this._clip, 'end', 0.0).name('End (s)').listen();
+        clip.add(this._clip, 'frameRate', 1.0, 120.0, 1.0).name('Frame rate');
+        clip.add(this._clip, 'format', clipFormats).name('Format');
+
+        const buttons = {
+            setStart: () => {
+                this._clip.start = this._actions.frameTime();
+            },
+            setEnd: () => {
+                this._clip.end = this._actions.frameTime();
+            },
+            render: () => this._actions.exportClip({ ...this._clip }),
+            cancel: () => this._actions.cancelClip(),
+        };
+        clip.add(buttons, 'setStart').name('Start at current frame');
+        clip.add(buttons, 'setEnd').name('End at current frame');
+        clip.add(buttons, 'render').name('Render clip');
+        clip.add(buttons, 'cancel').name('Cancel');
+        clip.open();
+    }
+
+    /**
+     * Show the progress of an export.
+     * @param text The status text
+     */
+    public setStatus(text: string): void {
+        this._status.text = text;
+    }
+
+    /**
+     * Show or hide the panel.
+     * @param visible Flag to show the panel
+     */
+    public setVisible(visible: boolean): void {
+        if (visible) {
+            this._gui.show();
+        } else {
+            this._gui.hide();
+        }
+        this._visible = visible;
+    }
+
+    /**
+     * Check if the panel is shown.
+     * @returns True if shown
+     */
+    public visible(): boolean {
+        return this._visible;
+    }
+
+    /**
+     * Remove the panel.
+     */
+    public dispose(): void {
+        this._gui.destroy();
+    }
+
+    private _actions: ExportActions;
+    private _gui: GUI;
+    private _clip: ClipOptions = { ...defaultClipOptions };
+    private _status = { text: '' };
+    private _visible = true;
+}
@@ -0,0 +1,192 @@
+import { CameraMetadata, fetchBlob, fetchJSON } from './app_util';
+import { LoadError, validateMetadata } from './validation';
+
+/**
+ * A frame of an image sequence: the image and its metadata, which are
+ * always loaded and applied together.
+ */
+export interface FrameData {
+    index: number;
+    image: HTMLImageElement;
+    metadata: CameraMetadata;
+}
+
+/**
+ * Options for the frame cache.
+ */
+export interface FrameCacheOptions {
+    /** Number of frames to prefetch before and after the current frame. */
+    prefetch: number;
+    /** Maximum number of loaded frames kept, the ones furthest from the
+     * current frame are evicted when exceeded. */
+    capacity: number;
+}
+
+/**
+ * Default frame cache options.
+ */
+export const defaultFrameCacheOptions: FrameCacheOptions = {
+    prefetch: 8,
+    capacity: 64,
+};
+
+interface CacheEntry {
+    promise: Promise<FrameData>;
+    controller: AbortController;
+    loaded: boolean;
+}
+
+/**
+ * Cache of the frames of an image sequence. Frames around the current
+ * frame are prefetched, and requests for frames that are no longer near
+ * the current frame are aborted.
+ */
+export class FrameCache {
+    /**
+     * Create a new cache.
+     * @param imageUrls Urls to the images, in frame order
+     * @param metadataUrls Urls to the frames' metadata, in frame order
+     * @param options Options
+     * @param validate Validation of the metadata, which may also amend it
+     */
+    public constructor(
+        imageUrls: string[],
+        metadataUrls: string[],
+        options: FrameCacheOptions = defaultFrameCacheOptions,
+        validate: (value: unknown) => CameraMetadata = validateMetadata
+    ) {
+        if (imageUrls.length != metadataUrls.length) {
+            throw new Error(
+                `${imageUrls.length} images but ${metadataUrls.length} metadata files`
+            );
+        }
+
+        this._imageUrls = imageUrls;
+        this._metadataUrls = metadataUrls;
+        this._options = options;
+        this._validate = validate;
+    }
+
+    /**
+     * Get the number of frames.
+     * @returns The number of frames
+     */
+    public length(): number {
+        return this._imageUrls.length;
+    }
+
+    /**
+     * Get a frame, loading it unless cached or already being loaded.
+     * @param index The frame index
+     * @returns Promise carrying the frame
+     */
+    public get(index: number): Promise<FrameData> {
+        const entry = this._entries.get(index);
+        if (entry) {
+            return entry.promise;
+        }
+
+        return this.load(index).promise;
+    }
+
+    /**
+     * Make a frame the current frame: abort requests for frames outside
+     * the prefetch window, start loading the frames inside it, and evict
+     * loaded frames when over capacity.
+     * @param index The current frame index
+     */
+    public prefetch(index: number): void {
+        const first = Math.max(index - this._options.prefetch, 0);
+        const last = Math.min(
+            index + this._options.prefetch,
+            this.length() - 1
+        );
+
+        this._entries.forEach((entry, i) => {
+            if (!entry.loaded && (i < first || i > last)) {
+                entry.controller.abort();
+                this._entries.delete(i);
+            }
+        });
+
+        // Nearest first, and ahead before behind.
+        for (let offset = 0; offset <= this._options.prefetch; ++offset) {
+            [index + offset, index - offset].forEach((i) => {
+                if (i >= first && i <= last && !this._entries.has(i)) {
+                    this.load(i);
+                }
+            });
+        }
+
+        const loaded = Array.from(this._entries.keys()).filter(
+            (i) => (this._entries.get(i) as CacheEntry).loaded
+        );
+        if (loaded.length > this._options.capacity) {
+            loaded
+                .sort((a, b) => Math.abs(b - index) - Math.abs(a - index))
+                .slice(0, loaded.length - this._options.capacity)
+                .forEach((i) => this._entries.delete(i));
+        }
+    }
+
+    /**
+     * Abort all requests and drop the cached frames.
+     */
+    public dispose(): void {
+        this._entries.forEach((entry) => entry.controller.abort());
+        this._entries.clear();
+    }
+
+    private load(index: number): CacheEntry {
+        const controller = new AbortController();
+        const signal = controller.signal;
+        const entry: CacheEntry = {
+            controller: controller,
+            loaded: false,
+            promise: Promise.all([
+                fetchBlob(this._imageUrls[index], signal).then((blob) =>
+                    decodeImage(blob, this._imageUrls[index])
+                ),
+                fetchJSON(this._metadataUrls[index], this._validate, signal),
+            ]).then(([image, metadata]) => {
+                entry.loaded = true;
+                return { index: index, image: image, metadata: metadata };
+            }),
+        };
+
+        // Failed frames are not cached, so they are tried again later.
+        entry.promise.catch(() => {
+            if (this._entries.get(index) === entry) {
+                this._entries.delete(index);
+            }
+        });
+
+        this._entries.set(index, entry);
+        return entry;
+    }
+
+    private _imageUrls: string[];
+    private _metadataUrls: string[];
+    private _options: FrameCacheOptions;
+    private _validate: (value: unknown) => CameraMetadata;
+    private _entries = new Map<number, CacheEntry>();
+}
+
+/**
+ * Decode an image from a blob.
+ */
+function decodeImage(blob: Blob, url: string): Promise<HTMLImageElement> {
+    return new Promise((resolve, reject) => {
+        const objectUrl = URL.createObjectURL(blob);
+        const image = new Image();
+        image.onload = () => {
+            URL.revokeObjectURL(objectUrl);
+            resolve(image);
+        };
+        image.onerror = () => {
+            URL.revokeObjectURL(objectUrl);
+            reject(new LoadError(url, 'not an image'));
+        };
+        image.src = objectUrl;
+    });
+}
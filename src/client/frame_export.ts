@@ -0,0 +1,544 @@
+import * as Three from 'three';
+
+import { Metadata, downloadBlob } from './app_util';
+import { FramePlayer } from './video_player';
+
+/**
+ * The metadata a frame was rendered with, written next to exported
+ * images.
+ */
+export interface FrameSidecar {
+    /** Presentation time of the frame, in seconds. */
+    time: number;
+    /** Size of the image in pixels. */
+    width: number;
+    height: number;
+    metadata: Metadata;
+}
+
+/**
+ * The sidecar of a clip, with the metadata of each frame.
+ */
+export interface ClipSidecar {
+    frameRate: number;
+    frames: FrameSidecar[];
+}
+
+/**
+ * Clip formats: a WebM video, or a sequence of PNG images in a ZIP
+ * archive.
+ */
+export type ClipFormat = 'webm' | 'png';
+
+/**
+ * The clip formats, for selection in the user interface.
+ */
+export const clipFormats: ClipFormat[] = ['webm', 'png'];
+
+/**
+ * What part of the source to render to a clip.
+ */
+export interface ClipOptions {
+    /** Start time in seconds. */
+    start: number;
+    /** End time in seconds, included. */
+    end: number;
+    /** Frames per second of the clip. */
+    frameRate: number;
+    format: ClipFormat;
+}
+
+/**
+ * Default clip options.
+ */
+export const defaultClipOptions: ClipOptions = {
+    start: 0.0,
+    end: 5.0,
+    frameRate: 30.0,
+    format: 'webm',
+};
+
+/**
+ * Renders views into an offscreen render target of a given size, e.g. the
+ * source image resolution, and reads them back. The renderer's canvas and
+ * drawing area are left as they are.
+ */
+export class FrameExporter {
+    /**
+     * Render into the offscreen target and read back the result.
+     * @param renderer The renderer
+     * @param width Width in pixels
+     * @param height Height in pixels
+     * @param draw Callback rendering the view into the current target
+     * @returns Canvas with the rendered image
+     */
+    public render(
+        renderer: Three.WebGLRenderer,
+        width: number,
+        height: number,
+        draw: () => void
+    ): HTMLCanvasElement {
+        const target = this.target(width, height);
+        const renderTarget = renderer.getRenderTarget();
+
+        renderer.setRenderTarget(target);
+        renderer.clear();
+        draw();
+        renderer.setRenderTarget(renderTarget);
+
+        const pixels = new Uint8Array(width * height * 4);
+        renderer.readRenderTargetPixels(target, 0, 0, width, height, pixels);
+
+        // The pixels are read bottom up.
+        const canvas = document.createElement('canvas');
+        canvas.width = width;
+        canvas.height = height;
+        const context = canvas.getContext('2d') as CanvasRenderingContext2D;
+        const image = context.createImageData(width, height);
+        const row = width * 4;
+        for (let y = 0; y < height; ++y) {
+            image.data.set(
+                pixels.subarray((height - y - 1) * row, (height - y) * row),
+                y * row
+            );
+        }
+        context.putImageData(image, 0, 0);
+
+        return canvas;
+    }
+
+    /**
+     * Release the GPU resources.
+     */
+    public dispose(): void {
+        if (this._target) {
+            this._target.dispose();
+            this._target = undefined;
+        }
+    }
+
+    /**
+     * Get the render target, with the given size.
+     */
+    private target(width: number, height: number): Three.WebGLRenderTarget {
+        if (!this._target) {
+            this._target = new Three.WebGLRenderTarget(width, height, {
+                generateMipmaps: false,
+            });
+        } else if (
+            this._target.width != width ||
+            this._target.height != height
+        ) {
+            this._target.setSize(width, height);
+        }
+
+        return this._target;
+    }
+
+    private _target?: Three.WebGLRenderTarget;
+}
+
+/**
+ * Save a rendered frame as a PNG image, with its sidecar.
+ * @param canvas The rendered frame
+ * @param sidecar The sidecar
+ * @param name File name, without extension
+ */
+export async function saveFrame(
+    canvas: HTMLCanvasElement,
+    sidecar: FrameSidecar,
+    name: string
+): Promise<void> {
+    downloadBlob(await toPng(canvas), `${name}.png`);
+    downloadBlob(toJsonBlob(sidecar), `${name}.json`);
+}
+
+/**
+ * Rendering of a clip, one frame at a time. The player is stepped
+ * through the clip's frames, and each frame is captured once the player
+ * presents it and the application has applied its metadata. A WebM
+ * clip is recorded in real time, with the recording paused while the
+ * next frame loads, so that each frame lasts a frame interval. The
+ * recorder time stamps the frames by the wall clock, so frame durations
+ * are off if the tab is slowed down, e.g. in the background; the PNG
+ * format, with exact frame times in the sidecar, is not affected.
+ */
+export class ClipRecorder {
+    /**
+     * Create a new recorder, and start rendering at the clip's start.
+     * @param player The player
+     * @param options The clip
+     * @param capture Callback rendering the current frame and giving its
+     * sidecar
+     */
+    public constructor(
+        player: FramePlayer,
+        options: ClipOptions,
+        capture: () => [HTMLCanvasElement, FrameSidecar]
+    ) {
+        if (options.frameRate <= 0.0 || options.end < options.start) {
+            throw new Error(
+                `Invalid clip ${options.start}-${options.end}s at ${options.frameRate} fps`
+            );
+        }
+
+        this._player = player;
+        this._options = { ...options };
+        this._capture = capture;
+
+        // Aim for the middle of the source frames to not get rounded into
+        // the neighbouring frames, and not past the last frame.
+        const halfFrame = 0.5 / player.frameRate();
+        const last = Math.max(player.duration() - halfFrame, halfFrame);
+        const frameCount =
+            Math.floor((options.end - options.start) * options.frameRate) + 1;
+        for (let i = 0; i < frameCount; ++i) {
+            this._times.push(
+                Math.min(
+                    options.start + i / options.frameRate + halfFrame,
+                    last
+                )
+            );
+        }
+
+        this._player.pause();
+        this._player.seek(this._times[0]);
+    }
+
+    /**
+     * Capture the current frame if it is the next frame of the clip,
+     * called once per rendered frame after the frame's metadata is
+     * applied.
+     * @param appliedTime Time of the frame the metadata is applied for
+     */
+    public update(appliedTime: number): void {
+        // The presented frame must be the one sought, and not the
+        // previous one before the seek is presented.
+        if (
+            this._busy ||
+            this.done() ||
+            !this._player.ready() ||
+            this._player.frameTime() != appliedTime ||
+            this.frameIndex(appliedTime) !=
+                this.frameIndex(this._times[this._index])
+        ) {
+            return;
+        }
+
+        this._busy = true;
+        const [canvas, sidecar] = this._capture();
+        this._sidecars.push(sidecar);
+        this.write(canvas)
+            .then(() => {
+                this._busy = false;
+                if (this.done()) {
+                    // Cancelled meanwhile.
+                    return;
+                }
+
+                if (++this._index < this._times.length) {
+                    this._player.seek(this._times[this._index]);
+                } else {
+                    this.finish();
+                }
+            })
+            .catch((e) => {
+                console.warn(`Clip rendering failed: ${e}`);
+                this.cancel();
+            });
+    }
+
+    /**
+     * Check if the clip is completely rendered, or cancelled.
+     * @returns True if done
+     */
+    public done(): boolean {
+        return this._index >= this._times.length;
+    }
+
+    /**
+     * Get a description of the progress.
+     * @returns The description
+     */
+    public status(): string {
+        return this.done()
+            ? `Rendered ${this._sidecars.length} frames`
+            : `Frame ${this._index + 1} of ${this._times.length}`;
+    }
+
+    /**
+     * Stop rendering. What is rendered so far is saved.
+     */
+    public cancel(): void {
+        if (this.done()) {
+            return;
+        }
+
+        this._index = this._times.length;
+        this.finish();
+    }
+
+    /**
+     * Get the index of the source frame at a time. Presentation times are
+     * at the start of frames, so they are allowed to round down a little.
+     */
+    private frameIndex(time: number): number {
+        return Math.floor(time * this._player.frameRate() + 1e-3);
+    }
+
+    /**
+     * Write a captured frame to the clip.
+     */
+    private async write(canvas: HTMLCanvasElement): Promise<void> {
+        if (this._options.format == 'png') {
+            if (!this._archive) {
+                this._archive = new ZipArchive();
+            }
+            this._archive.add(
+                `clip-${this._index.toString().padStart(5, '0')}.png`,
+                new Uint8Array(await (await toPng(canvas)).arrayBuffer())
+            );
+            return;
+        }
+
+        if (!this._recording) {
+            this._recording = new WebmRecording(
+                canvas.width,
+                canvas.height,
+                this._options.frameRate
+            );
+        }
+        await this._recording.add(canvas);
+    }
+
+    /**
+     * Save the sidecar, and the video of a WebM clip or the archive of a
+     * PNG clip.
+     */
+    private finish(): void {
+        const sidecar: ClipSidecar = {
+            frameRate: this._options.frameRate,
+            frames: this._sidecars,
+        };
+        downloadBlob(toJsonBlob(sidecar), 'clip.json');
+
+        if (this._archive) {
+            downloadBlob(this._archive.blob(), 'clip.zip');
+            this._archive = undefined;
+        }
+
+        if (this._recording) {
+            this._recording
+                .stop()
+                .then((video) => downloadBlob(video, 'clip.webm'))
+                .catch((e) => console.warn(`Clip recording failed: ${e}`));
+            this._recording = undefined;
+        }
+    }
+
+    private _player: FramePlayer;
+    private _options: ClipOptions;
+    private _capture: () => [HTMLCanvasElement, FrameSidecar];
+    private _times: number[] = [];
+    private _index = 0;
+    private _busy = false;
+    private _sidecars: FrameSidecar[] = [];
+    private _recording?: WebmRecording;
+    private _archive?: ZipArchive;
+}
+
+/**
+ * The part of a canvas capture track that is used here. Not yet part of
+ * the DOM typings.
+ */
+interface FrameRequestTrack {
+    requestFrame(): void;
+}
+
+/**
+ * A WebM recording of a canvas, to which frames are added one at a time.
+ * The recording runs for a frame interval per added frame, and is paused
+ * in between.
+ */
+class WebmRecording {
+    public constructor(width: number, height: number, frameRate: number) {
+        this._canvas.width = width;
+        this._canvas.height = height;
+        this._interval = 1000.0 / frameRate;
+
+        // Frames are only taken when requested.
+        const stream = this._canvas.captureStream(0);
+        this._track =
+            stream.getVideoTracks()[0] as unknown as FrameRequestTrack;
+        this._recorder = new MediaRecorder(stream, {
+            mimeType: MediaRecorder.isTypeSupported('video/webm;codecs=vp9')
+                ? 'video/webm;codecs=vp9'
+                : 'video/webm',
+        });
+        this._recorder.ondataavailable = (event) => {
+            if (event.data.size > 0) {
+                this._chunks.push(event.data);
+            }
+        };
+        this._recorder.start();
+        this._recorder.pause();
+    }
+
+    /**
+     * Add a frame, resolved when it has been shown for a frame interval.
+     */
+    public add(frame: HTMLCanvasElement): Promise<void> {
+        const context = this._canvas.getContext(
+            '2d'
+        ) as CanvasRenderingContext2D;
+        context.drawImage(frame, 0, 0);
+
+        this._recorder.resume();
+        this._track.requestFrame();
+        return new Promise((resolve) =>
+            window.setTimeout(() => {
+                if (this._recorder.state == 'recording') {
+                    this._recorder.pause();
+                }
+                resolve();
+            }, this._interval)
+        );
+    }
+
+    /**
+     * Stop recording.
+     * @returns Promise carrying the video
+     */
+    public stop(): Promise<Blob> {
+        return new Promise((resolve) => {
+            this._recorder.onstop = () =>
+                resolve(new Blob(this._chunks, { type: 'video/webm' }));
+            this._recorder.stop();
+        });
+    }
+
+    private _canvas = document.createElement('canvas');
+    private _interval: number;
+    private _track: FrameRequestTrack;
+    private _recorder: MediaRecorder;
+    private _chunks: Blob[] = [];
+}
+
+/**
+ * A ZIP archive of uncompressed files, built in memory. The files are
+ * stored as they are, as PNG images are compressed already, so that a
+ * whole image sequence is saved as one download.
+ */
+class ZipArchive {
+    /**
+     * Add a file.
+     */
+    public add(name: string, data: Uint8Array): void {
+        const nameBytes = new TextEncoder().encode(name);
+        const crc = crc32(data);
+
+        const local = new DataView(new ArrayBuffer(30));
+        local.setUint32(0, 0x04034b50, true);
+        this.writeEntryFields(local, 4, crc, data.length, nameBytes.length);
+
+        const central = new DataView(new ArrayBuffer(46));
+        central.setUint32(0, 0x02014b50, true);
+        central.setUint16(4, 20, true);
+        this.writeEntryFields(central, 6, crc, data.length, nameBytes.length);
+        central.setUint32(42, this._offset, true);
+
+        this._parts.push(local, nameBytes, data);
+        this._directory.push(central, nameBytes);
+        this._offset += local.byteLength + nameBytes.length + data.length;
+        ++this._count;
+    }
+
+    /**
+     * Get the archive.
+     * @returns The archive data
+     */
+    public blob(): Blob {
+        const size = this._directory.reduce(
+            (total, part) => total + part.byteLength,
+            0
+        );
+        const end = new DataView(new ArrayBuffer(22));
+        end.setUint32(0, 0x06054b50, true);
+        end.setUint16(8, this._count, true);
+        end.setUint16(10, this._count, true);
+        end.setUint32(12, size, true);
+        end.setUint32(16, this._offset, true);
+
+        return new Blob([...this._parts, ...this._directory, end], {
+            type: 'application/zip',
+        });
+    }
+
+    /**
+     * Write the fields that the local and central headers share, from the
+     * version needed to the extra field length. The files are dated
+     * 1980-01-01, the earliest date of the format.
+     */
+    private writeEntryFields(
+        view: DataView,
+        offset: number,
+        crc: number,
+        size: number,
+        nameLength: number
+    ): void {
+        view.setUint16(offset, 20, true);
+        view.setUint16(offset + 8, (1 << 5) | 1, true);
+        view.setUint32(offset + 10, crc, true);
+        view.setUint32(offset + 14, size, true);
+        view.setUint32(offset + 18, size, true);
+        view.setUint16(offset + 22, nameLength, true);
+    }
+
+    private _parts: BlobPart[] = [];
+    private _directory: (DataView | Uint8Array)[] = [];
+    private _offset = 0;
+    private _count = 0;
+}
+
+/**
+ * Compute the CRC-32 of data, as used by ZIP.
+ */
+function crc32(data: Uint8Array): number {
+    let crc = 0xffffffff;
+    for (let i = 0; i < data.length; ++i) {
+        crc = crcTable[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+    }
+
+    return (crc ^ 0xffffffff) >>> 0;
+}
+
+const crcTable = (() => {
+    const table = new Uint32Array(256);
+    for (let n = 0; n < 256; ++n) {
+        let c = n;
+        for (let k = 0; k < 8; ++k) {
+            c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+        }
+        table[n] = c >>> 0;
+    }
+
+    return table;
+})();
+
+function toPng(canvas: HTMLCanvasElement): Promise<Blob> {
+    return new Promise((resolve, reject) =>
+        canvas.toBlob((blob) => {
+            if (blob) {
+                resolve(blob);
+            } else {
+                reject(new Error('Failed to encode PNG'));
+            }
+        }, 'image/png')
+    );
+}
+
+function toJsonBlob(data: unknown): Blob {
+    return new Blob([JSON.stringify(data, null, 2)], {
+        type: 'application/json',
+    });
+}
@@ -0,0 +1,249 @@
+import * as Three from 'three';
+import { degToRad } from 'three/src/math/MathUtils';
+
+import {
+    Metadata,
+    createPerspectiveCamera,
+    geodeticToEcef,
+    setCameraMetadata,
+    terrainLayer,
+} from './app_util';
+import { distortPoint, undistortPoint } from './lens_calibration';
+
+/**
+ * A geolocated point. The height is WGS84 ellipsoid height in meters,
+ * and the angles are in degrees.
+ */
+export interface GeoLocation {
+    ecef: Three.Vector3;
+    latitude: number;
+    longitude: number;
+    height: number;
+    /** Distance from the sensor in meters. */
+    slantRange: number;
+}
+
+/**
+ * Visibility of a point projected into the image:
+ * - visible: in the frame, and not hidden by terrain
+ * - occluded: in the frame, but hidden by terrain
+ * - outside: in front of the sensor, but outside of the frame
+ * - behind: behind the sensor
+ */
+export type ProjectionStatus = 'visible' | 'occluded' | 'outside' | 'behind';
+
+/**
+ * A point projected into the image.
+ */
+export interface ImageProjection {
+    status: ProjectionStatus;
+    /** Pixel coordinates, undefined if behind the sensor. */
+    x?: number;
+    y?: number;
+    /** Distance from the sensor in meters. */
+    slantRange: number;
+}
+
+/**
+ * Queries between image pixels and geographic positions, for the image
+ * taken with a metadata over a terrain.
+ *
+ * Pixel coordinates are those of the original (distorted) image, with the
+ * origin at the image's upper left corner, x to the right and y down. The
+ * center of the upper left pixel is at (0.5, 0.5).
+ */
+export class GeoQuery {
+    /**
+     * Create a new query object.
+     * @param terrain The terrain to intersect
+     * @param imageWidth Width of the image in pixels
+     * @param imageHeight Height of the image in pixels
+     */
+    public constructor(
+        terrain: Three.Object3D,
+        imageWidth: number,
+        imageHeight: number
+    ) {
+        this._terrain = terrain;
+        this._imageWidth = imageWidth;
+        this._imageHeight = imageHeight;
+        this._camera = createPerspectiveCamera();
+        this._raycaster.layers.set(terrainLayer);
+    }
+
+    /**
+     * Set the metadata for the image.
+     * @param metadata The metadata
+     */
+    public setMetadata(metadata: Metadata): void {
+        this._metadata = metadata;
+        setCameraMetadata(this._camera, metadata);
+        this._tanHalfFov.set(
+            Math.tan(degToRad(metadata.hfov) / 2.0),
+            Math.tan(degToRad(metadata.vfov) / 2.0)
+        );
+    }
+
+    /**
+     * Set the size of the image.
+     * @param imageWidth Width of the image in pixels
+     * @param imageHeight Height of the image in pixels
+     */
+    public setImageSize(imageWidth: number, imageHeight: number): void {
+        this._imageWidth = imageWidth;
+        this._imageHeight = imageHeight;
+    }
+
+    /**
+     * Geolocate an image pixel, by intersecting its ray with the terrain.
+     * @param x Pixel x coordinate
+     * @param y Pixel y coordinate
+     * @returns The location, or undefined if the ray misses the terrain
+     */
+    public pixelToGeo(x: number, y: number): GeoLocation | undefined {
+        const metadata = this.metadata();
+        const calibration = metadata.calibration || {};
+
+        // To normalized camera coordinates, relative the principal point.
+        const imageX = x / this._imageWidth - 0.5 - (calibration.cx || 0.0);
+        const imageY = y / this._imageHeight - 0.5 - (calibration.cy || 0.0);
+        const [cameraX, cameraY] = undistortPoint(
+            calibration,
+            imageX * 2.0 * this._tanHalfFov.x,
+            imageY * 2.0 * this._tanHalfFov.y
+        );
+
+        // The camera looks along -z with y up.
+        const direction = new Three.Vector3(cameraX, -cameraY, -1.0)
+            .applyQuaternion(this._camera.quaternion)
+            .normalize();
+
+        const hit = this.intersect(this._camera.position, direction);
+        if (!hit) {
+            return undefined;
+        }
+
+        return {
+            ...ecefToGeodetic(hit.point),
+            ecef: hit.point,
+            slantRange: hit.distance,
+        };
+    }
+
+    /**
+     * Project a geodetic position into the image.
+     * @param latitude Latitude in degrees
+     * @param longitude Longitude in degrees
+     * @param height Ellipsoid height in meters
+     * @returns The projection
+     */
+    public geoToPixel(
+        latitude: number,
+        longitude: number,
+        height: number
+    ): ImageProjection {
+        const [x, y, z] = geodeticToEcef.forward([longitude, latitude, height]);
+        return this.ecefToPixel(new Three.Vector3(x, y, z));
+    }
+
+    /**
+     * Project an ECEF position into the image.
+     * @param point The position
+     * @returns The projection
+     */
+    public ecefToPixel(point: Three.Vector3): ImageProjection {
+        const metadata = this.metadata();
+        const calibration = metadata.calibration || {};
+        const slantRange = point.distanceTo(this._camera.position);
+
+        const local = point
+            .clone()
+            .applyMatrix4(this._camera.matrixWorldInverse);
+        if (local.z >= 0.0) {
+            return { status: 'behind', slantRange: slantRange };
+        }
+
+        // Normalized camera coordinates, y down.
+        const [cameraX, cameraY] = distortPoint(
+            calibration,
+            local.x / -local.z,
+            -local.y / -local.z
+        );
+        const x =
+            (cameraX / (2.0 * this._tanHalfFov.x) +
+                (calibration.cx || 0.0) +
+                0.5) *
+            this._imageWidth;
+        const y =
+            (cameraY / (2.0 * this._tanHalfFov.y) +
+                (calibration.cy || 0.0) +
+                0.5) *
+            this._imageHeight;
+
+        if (
+            x < 0.0 ||
+            x > this._imageWidth ||
+            y < 0.0 ||
+            y > this._imageHeight
+        ) {
+            return { status: 'outside', x: x, y: y, slantRange: slantRange };
+        }
+
+        // Occluded if the terrain is hit before the point, with a tolerance
+        // for points on the terrain surface.
+        const direction = point.clone().sub(this._camera.position).normalize();
+        const hit = this.intersect(this._camera.position, direction);
+        const tolerance = Math.max(1.0, slantRange * 0.001);
+        const status =
+            hit && hit.distance < slantRange - tolerance
+                ? 'occluded'
+                : 'visible';
+
+        return { status: status, x: x, y: y, slantRange: slantRange };
+    }
+
+    private metadata(): Metadata {
+        if (!this._metadata) {
+            throw new Error('GeoQuery has no metadata');
+        }
+
+        return this._metadata;
+    }
+
+    private intersect(
+        origin: Three.Vector3,
+        direction: Three.Vector3
+    ): Three.Intersection | undefined {
+        this._raycaster.set(origin, direction);
+        const intersects = this._raycaster.intersectObject(this._terrain, true);
+
+        return intersects.length > 0 ? intersects[0] : undefined;
+    }
+
+    private _terrain: Three.Object3D;
+    private _imageWidth: number;
+    private _imageHeight: number;
+    private _camera: Three.PerspectiveCamera;
+    private _metadata?: Metadata;
+    private _tanHalfFov = new Three.Vector2(1.0, 1.0);
+    private _raycaster = new Three.Raycaster();
+}
+
+/**
+ * Convert an ECEF position to WGS84 geodetic coordinates.
+ * @param point The position
+ * @returns Latitude and longitude in degrees, and ellipsoid height
+ */
+export function ecefToGeodetic(point: Three.Vector3): {
+    latitude: number;
+    longitude: number;
+    height: number;
+} {
+    const [longitude, latitude, height] = geodeticToEcef.inverse([
+        point.x,
+        point.y,
+        point.z,
+    ]);
+
+    return { latitude: latitude, longitude: longitude, height: height };
+}
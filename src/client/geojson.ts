@@ -0,0 +1,63 @@
+/**
+ * GeoJSON (RFC 7946) types. Positions are [x, y] or [x, y, z], in WGS84
+ * longitude and latitude unless the data declares another CRS.
+ */
+export type GeoJsonPosition = number[];
+
+export type GeoJsonGeometry =
+    | { type: 'Point'; coordinates: GeoJsonPosition }
+    | { type: 'MultiPoint'; coordinates: GeoJsonPosition[] }
+    | { type: 'LineString'; coordinates: GeoJsonPosition[] }
+    | { type: 'MultiLineString'; coordinates: GeoJsonPosition[][] }
+    | { type: 'Polygon'; coordinates: GeoJsonPosition[][] }
+    | { type: 'MultiPolygon'; coordinates: GeoJsonPosition[][][] }
+    | { type: 'GeometryCollection'; geometries: GeoJsonGeometry[] };
+
+export type GeoJsonProperties = { [key: string]: unknown } | null;
+
+export interface GeoJsonFeature {
+    type: 'Feature';
+    id?: string | number;
+    geometry: GeoJsonGeometry | null;
+    properties: GeoJsonProperties;
+}
+
+/**
+ * A feature collection. The crs member is from the 2008 GeoJSON
+ * specification, and is still written by many tools.
+ */
+export interface GeoJsonFeatureCollection {
+    type: 'FeatureCollection';
+    features: GeoJsonFeature[];
+    crs?: { type: 'name'; properties: { name: string } };
+}
+
+export type GeoJson = GeoJsonFeatureCollection | GeoJsonFeature;
+
+/**
+ * Get the features of GeoJSON data.
+ * @param data The data
+ * @returns The features
+ */
+export function geoJsonFeatures(data: GeoJson): GeoJsonFeature[] {
+    return data.type == 'FeatureCollection' ? data.features : [data];
+}
+
+/**
+ * Get the CRS declared by GeoJSON data, as understood by resolveCrs.
+ * OGC URNs like urn:ogc:def:crs:EPSG::3006 are turned into EPSG codes.
+ * @param data The data
+ * @returns The CRS, WGS84 if none is declared
+ */
+export function geoJsonCrs(data: GeoJson): string {
+    const name =
+        data.type == 'FeatureCollection' && data.crs
+            ? data.crs.properties.name
+            : undefined;
+    if (!name || /CRS84$/i.test(name)) {
+        return 'EPSG:4326';
+    }
+
+    const match = name.match(/^urn:ogc:def:crs:EPSG:[^:]*:(\d+)$/i);
+    return match ? `EPSG:${match[1]}` : name;
+}
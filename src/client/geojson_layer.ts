@@ -0,0 +1,709 @@
+import * as Three from 'three';
+import { Line2 } from 'three/examples/jsm/lines/Line2';
+import { LineGeometry } from 'three/examples/jsm/lines/LineGeometry';
+import { LineMaterial } from 'three/examples/jsm/lines/LineMaterial';
+import { degToRad } from 'three/src/math/MathUtils';
+import proj4 from 'proj4';
+
+import {
+    fetchJSON,
+    geodeticToEcef,
+    nedToEcefRotation,
+    terrainLayer,
+} from './app_util';
+import { VerticalDatum, geoidUndulation, resolveCrs } from './crs';
+import {
+    GeoJson,
+    GeoJsonFeature,
+    GeoJsonGeometry,
+    GeoJsonPosition,
+    GeoJsonProperties,
+    geoJsonCrs,
+    geoJsonFeatures,
+} from './geojson';
+import { validateGeoJson } from './validation';
+
+/**
+ * Styling of GeoJSON features. Features can override the style with the
+ * simplestyle properties (stroke, stroke-width, stroke-opacity, fill,
+ * fill-opacity, marker-color and marker-size).
+ */
+export interface GeoJsonStyle {
+    stroke: string;
+    /** Line width in pixels. */
+    strokeWidth: number;
+    strokeOpacity: number;
+    fill: string;
+    fillOpacity: number;
+    markerColor: string;
+    /** Marker size in pixels. */
+    markerSize: number;
+    /** Feature property with the label text, no labels if empty. */
+    labelProperty: string;
+    /** Label height, as a fraction of the view's tangent space. */
+    labelSize: number;
+}
+
+/**
+ * Default GeoJSON style.
+ */
+export const defaultGeoJsonStyle: GeoJsonStyle = {
+    stroke: '#ffff00',
+    strokeWidth: 2.0,
+    strokeOpacity: 1.0,
+    fill: '#ffff00',
+    fillOpacity: 0.25,
+    markerColor: '#ff0000',
+    markerSize: 10.0,
+    labelProperty: 'title',
+    labelSize: 0.05,
+};
+
+/**
+ * Options for GeoJSON layers.
+ */
+export interface GeoJsonLayerOptions {
+    /** CRS of the coordinates, overriding any CRS declared by the data. */
+    crs?: string;
+    /** Vertical datum for coordinate heights. */
+    verticalDatum: VerticalDatum;
+    /** Flag to put the features on the terrain surface. */
+    clampToTerrain: boolean;
+    /** Lift above the terrain in meters, to stay clear of its surface. */
+    heightOffset: number;
+    /** Maximum length in meters of line segments following the terrain. */
+    densify: number;
+    style: GeoJsonStyle;
+}
+
+/**
+ * Default GeoJSON layer options.
+ */
+export const defaultGeoJsonLayerOptions: GeoJsonLayerOptions = {
+    verticalDatum: { type: 'ellipsoid' },
+    clampToTerrain: true,
+    heightOffset: 1.0,
+    densify: 10.0,
+    style: defaultGeoJsonStyle,
+};
+
+/**
+ * A layer of GeoJSON features, converted to ECEF and clamped to the
+ * terrain. The features are drawn after the video overlay, depth tested
+ * against the terrain, so they register with the video. Fills and labels
+ * are not depth tested, as fills only follow the terrain at their edges.
+ */
+export class GeoJsonLayer {
+    /**
+     * Create a new layer. Nothing is shown until the layer is built.
+     * @param data The GeoJSON data
+     * @param options Options
+     */
+    public constructor(
+        data: GeoJson,
+        options: GeoJsonLayerOptions = defaultGeoJsonLayerOptions
+    ) {
+        this._features = geoJsonFeatures(data);
+        this._options = options;
+        this._toGeodetic = proj4(
+            resolveCrs(options.crs || geoJsonCrs(data)),
+            'EPSG:4326'
+        );
+        this._raycaster.layers.set(terrainLayer);
+    }
+
+    /**
+     * Get the root of the layer's objects.
+     * @returns The root
+     */
+    public root(): Three.Group {
+        return this._root;
+    }
+
+    /**
+     * (Re)build the layer's objects, clamped to the currently shown
+     * terrain. When the shown terrain changes, use rebuild instead.
+     * @param terrain The terrain
+     */
+    public build(terrain?: Three.Object3D): void {
+        this.clear();
+        this._terrain = terrain;
+        if (terrain) {
+            terrain.updateMatrixWorld();
+        }
+
+        this._features.forEach((feature) => {
+            if (feature.geometry) {
+                this._built.push({
+                    feature: feature,
+                    group: this.buildFeature(feature),
+                    extent: featureExtent(feature.geometry, (position) =>
+                        this.geodetic(position)
+                    ),
+                });
+            }
+        });
+    }
+
+    /**
+     * Rebuild the objects of the features within changed parts of the
+     * terrain, e.g. where streamed tiles were shown or hidden. Other
+     * features stay as they are, as their clamping is not affected.
+     * @param extents The changed parts, in ECEF
+     */
+    public rebuild(extents: Three.Box3[]): void {
+        if (!this._options.clampToTerrain || !this._terrain) {
+            return;
+        }
+
+        this._terrain.updateMatrixWorld();
+        this._built.forEach((built) => {
+            if (extents.some((extent) => extent.intersectsBox(built.extent))) {
+                disposeOverlay(built.group);
+                built.group = this.buildFeature(built.feature);
+            }
+        });
+    }
+
+    /**
+     * Set the size of the drawing area, needed for the line widths.
+     * @param width Width in pixels
+     * @param height Height in pixels
+     */
+    public setResolution(width: number, height: number): void {
+        this._resolution.set(width, height);
+    }
+
+    /**
+     * Release the layer's objects.
+     */
+    public dispose(): void {
+        this.clear();
+    }
+
+    private clear(): void {
+        this._root.children.slice().forEach((group) => disposeOverlay(group));
+        this._built = [];
+    }
+
+    /**
+     * Build the objects of a feature with a geometry, and add them to the
+     * root.
+     */
+    private buildFeature(feature: GeoJsonFeature): Three.Group {
+        const group = this.buildGeometry(
+            feature.geometry as GeoJsonGeometry,
+            feature.properties
+        );
+        const label = this.buildLabel(feature);
+        if (label) {
+            group.add(label);
+        }
+        this._root.add(group);
+
+        return group;
+    }
+
+    private buildGeometry(
+        geometry: GeoJsonGeometry,
+        properties: GeoJsonProperties
+    ): Three.Group {
+        const style = featureStyle(this._options.style, properties);
+        const group = new Three.Group();
+
+        switch (geometry.type) {
+            case 'Point':
+                this.addPoints(group, [geometry.coordinates], style);
+                break;
+            case 'MultiPoint':
+                this.addPoints(group, geometry.coordinates, style);
+                break;
+            case 'LineString':
+                this.addLine(group, geometry.coordinates, style);
+                break;
+            case 'MultiLineString':
+                geometry.coordinates.forEach((line) =>
+                    this.addLine(group, line, style)
+                );
+                break;
+            case 'Polygon':
+                this.addPolygon(group, geometry.coordinates, style);
+                break;
+            case 'MultiPolygon':
+                geometry.coordinates.forEach((polygon) =>
+                    this.addPolygon(group, polygon, style)
+                );
+                break;
+            case 'GeometryCollection':
+                geometry.geometries.forEach((child) =>
+                    group.add(this.buildGeometry(child, properties))
+                );
+                break;
+        }
+
+        return group;
+    }
+
+    private addPoints(
+        group: Three.Group,
+        coordinates: GeoJsonPosition[],
+        style: GeoJsonStyle
+    ): void {
+        const points = coordinates.map((c) => this.toEcef(this.geodetic(c)));
+        const [origin, positions] = relativePositions(points);
+
+        const geometry = new Three.BufferGeometry();
+        geometry.setAttribute(
+            'position',
+            new Three.BufferAttribute(positions, 3)
+        );
+        const object = new Three.Points(
+            geometry,
+            new Three.PointsMaterial({
+                color: style.markerColor,
+                size: style.markerSize,
+                sizeAttenuation: false,
+            })
+        );
+        object.position.copy(origin);
+        object.renderOrder = 3;
+        group.add(object);
+    }
+
+    private addLine(
+        group: Three.Group,
+        coordinates: GeoJsonPosition[],
+        style: GeoJsonStyle
+    ): void {
+        if (coordinates.length < 2) {
+            return;
+        }
+
+        const points = this.densify(coordinates.map((c) => this.geodetic(c)));
+        const [origin, positions] = relativePositions(
+            points.map((p) => this.toEcef(p))
+        );
+
+        const geometry = new LineGeometry();
+        geometry.setPositions(Array.from(positions));
+        const material = new LineMaterial({
+            color: new Three.Color(style.stroke).getHex(),
+            linewidth: style.strokeWidth,
+            transparent: style.strokeOpacity < 1.0,
+            opacity: style.strokeOpacity,
+        });
+
+        // Line widths are in pixels of the current drawing area.
+        material.resolution = this._resolution;
+
+        const line = new Line2(geometry, material);
+        line.computeLineDistances();
+        line.position.copy(origin);
+        line.renderOrder = 3;
+        group.add(line);
+    }
+
+    private addPolygon(
+        group: Three.Group,
+        rings: GeoJsonPosition[][],
+        style: GeoJsonStyle
+    ): void {
+        rings.forEach((ring) => this.addLine(group, ring, style));
+        if (
+            rings.length == 0 ||
+            rings[0].length < 4 ||
+            style.fillOpacity <= 0
+        ) {
+            return;
+        }
+
+        // Triangulate in the local tangent plane of the first vertex.
+        // The closing vertex of each ring is dropped.
+        const contours = rings.map((ring) =>
+            this.densify(ring.map((c) => this.geodetic(c))).slice(0, -1)
+        );
+        const [longitude, latitude] = contours[0][0];
+        const ned = nedToEcefRotation(degToRad(latitude), degToRad(longitude));
+        const north = new Three.Vector3();
+        const east = new Three.Vector3();
+        ned.extractBasis(north, east, new Three.Vector3());
+
+        const points = ([] as number[][])
+            .concat(...contours)
+            .map((p) => this.toEcef(p));
+        const [origin, positions] = relativePositions(points);
+        const planar = (ring: number[][], offset: number) =>
+            ring.map((_, i) => {
+                const p = new Three.Vector3().fromArray(
+                    positions,
+                    (offset + i) * 3
+                );
+                return new Three.Vector2(p.dot(east), p.dot(north));
+            });
+
+        let offset = 0;
+        const shapes = contours.map((ring) => {
+            const shape = planar(ring, offset);
+            offset += ring.length;
+            return shape;
+        });
+        const triangles = Three.ShapeUtils.triangulateShape(
+            shapes[0],
+            shapes.slice(1)
+        );
+
+        const geometry = new Three.BufferGeometry();
+        geometry.setAttribute(
+            'position',
+            new Three.BufferAttribute(positions, 3)
+        );
+        geometry.setIndex(([] as number[]).concat(...triangles));
+        const fill = new Three.Mesh(
+            geometry,
+            new Three.MeshBasicMaterial({
+                color: style.fill,
+                transparent: true,
+                opacity: style.fillOpacity,
+                side: Three.DoubleSide,
+                depthTest: false,
+                depthWrite: false,
+            })
+        );
+        fill.position.copy(origin);
+        fill.renderOrder = 2;
+        group.add(fill);
+    }
+
+    private buildLabel(feature: GeoJsonFeature): Three.Sprite | undefined {
+        const style = featureStyle(this._options.style, feature.properties);
+        const properties = feature.properties || {};
+        const text = style.labelProperty
+            ? properties[style.labelProperty]
+            : undefined;
+        if (text === undefined || text === null || !feature.geometry) {
+            return undefined;
+        }
+
+        const anchor = firstPosition(feature.geometry);
+        if (!anchor) {
+            return undefined;
+        }
+
+        const label = createLabel(String(text), style.labelSize);
+        label.position.copy(this.toEcef(this.geodetic(anchor)));
+        return label;
+    }
+
+    /**
+     * Convert a position to [longitude, latitude, ellipsoid height].
+     */
+    private geodetic(position: GeoJsonPosition): number[] {
+        const [longitude, latitude] = this._toGeodetic.forward([
+            position[0],
+            position[1],
+        ]);
+        const height =
+            (position.length > 2 ? position[2] : 0.0) +
+            geoidUndulation(this._options.verticalDatum, latitude, longitude);
+
+        return [longitude, latitude, height];
+    }
+
+    /**
+     * Convert a geodetic position to ECEF, clamped to the terrain if
+     * enabled and if there is terrain below the position.
+     */
+    private toEcef(geodetic: number[]): Three.Vector3 {
+        const [longitude, latitude, height] = geodetic;
+        if (this._options.clampToTerrain && this._terrain) {
+            const [x, y, z] = geodeticToEcef.forward([
+                longitude,
+                latitude,
+                clampRayHeight,
+            ]);
+            const origin = new Three.Vector3(x, y, z);
+            const down = new Three.Vector3();
+            nedToEcefRotation(
+                degToRad(latitude),
+                degToRad(longitude)
+            ).extractBasis(new Three.Vector3(), new Three.Vector3(), down);
+
+            this._raycaster.set(origin, down);
+            const intersects = this._raycaster.intersectObject(
+                this._terrain,
+                true
+            );
+            if (intersects.length > 0) {
+                return intersects[0].point.addScaledVector(
+                    down,
+                    -this._options.heightOffset
+                );
+            }
+        }
+
+        const [x, y, z] = geodeticToEcef.forward([longitude, latitude, height]);
+        return new Three.Vector3(x, y, z);
+    }
+
+    /**
+     * Insert positions along a line of geodetic positions, so no segment
+     * is longer than the densify distance.
+     */
+    private densify(line: number[][]): number[][] {
+        const result: number[][] = [line[0]];
+        for (let i = 1; i < line.length; ++i) {
+            const [lon0, lat0, h0] = line[i - 1];
+            const [lon1, lat1, h1] = line[i];
+            const length = new Three.Vector3()
+                .fromArray(geodeticToEcef.forward([lon0, lat0, h0]))
+                .distanceTo(
+                    new Three.Vector3().fromArray(
+                        geodeticToEcef.forward([lon1, lat1, h1])
+                    )
+                );
+            const steps = Math.max(
+                Math.ceil(length / this._options.densify),
+                1
+            );
+            for (let step = 1; step <= steps; ++step) {
+                const t = step / steps;
+                result.push([
+                    lon0 + (lon1 - lon0) * t,
+                    lat0 + (lat1 - lat0) * t,
+                    h0 + (h1 - h0) * t,
+                ]);
+            }
+        }
+
+        return result;
+    }
+
+    private _features: GeoJsonFeature[];
+    private _options: GeoJsonLayerOptions;
+    private _toGeodetic: proj4.Converter;
+    private _terrain?: Three.Object3D;
+    private _root = new Three.Group();
+    private _built: BuiltFeature[] = [];
+    private _raycaster = new Three.Raycaster();
+    private _resolution = new Three.Vector2(1.0, 1.0);
+}
+
+/**
+ * The objects built for a feature, and the extent within which terrain
+ * changes affect them.
+ */
+interface BuiltFeature {
+    feature: GeoJsonFeature;
+    group: Three.Group;
+    extent: Three.Box3;
+}
+
+/**
+ * Async fetch of a GeoJSON layer. The layer is not built.
+ * @param url GeoJSON URL
+ * @param options Options
+ * @returns Promise carrying the layer
+ */
+export async function fetchGeoJsonLayer(
+    url: string,
+    options: GeoJsonLayerOptions = defaultGeoJsonLayerOptions
+): Promise<GeoJsonLayer> {
+    return new GeoJsonLayer(await fetchJSON(url, validateGeoJson), options);
+}
+
+/**
+ * Create a text label, as a sprite of constant screen size anchored at
+ * its bottom center.
+ * @param text The text
+ * @param size Label height, as a fraction of the view's tangent space
+ * @returns The sprite
+ */
+export function createLabel(text: string, size: number): Three.Sprite {
+    const fontSize = 48;
+    const canvas = document.createElement('canvas');
+    const context = canvas.getContext('2d') as CanvasRenderingContext2D;
+    context.font = `${fontSize}px sans-serif`;
+    canvas.width = Math.ceil(context.measureText(text).width) + fontSize / 2;
+    canvas.height = Math.ceil(fontSize * 1.4);
+
+    // Resizing the canvas resets the context.
+    context.font = `${fontSize}px sans-serif`;
+    context.fillStyle = 'rgba(0, 0, 0, 0.5)';
+    context.fillRect(0, 0, canvas.width, canvas.height);
+    context.fillStyle = '#ffffff';
+    context.textAlign = 'center';
+    context.textBaseline = 'middle';
+    context.fillText(text, canvas.width / 2, canvas.height / 2);
+
+    const texture = new Three.CanvasTexture(canvas);
+    texture.minFilter = Three.LinearFilter;
+    const sprite = new Three.Sprite(
+        new Three.SpriteMaterial({
+            map: texture,
+            sizeAttenuation: false,
+            depthTest: false,
+            depthWrite: false,
+        })
+    );
+    sprite.center.set(0.5, 0.0);
+    sprite.scale.set((size * canvas.width) / canvas.height, size, 1.0);
+    sprite.renderOrder = 4;
+
+    return sprite;
+}
+
+/**
+ * Remove an overlay object from its parent, and release the geometries,
+ * materials and label textures below it.
+ * @param overlay The overlay
+ */
+export function disposeOverlay(overlay: Three.Object3D): void {
+    overlay.traverse((object) => {
+        if (
+            object instanceof Three.Mesh ||
+            object instanceof Three.Points ||
+            object instanceof Three.Sprite
+        ) {
+            object.geometry.dispose();
+            const material = object.material as Three.Material;
+            if (material instanceof Three.SpriteMaterial && material.map) {
+                material.map.dispose();
+            }
+            material.dispose();
+        }
+    });
+    overlay.removeFromParent();
+}
+
+/**
+ * Merge a feature's simplestyle properties into a style.
+ */
+function featureStyle(
+    style: GeoJsonStyle,
+    properties: GeoJsonProperties
+): GeoJsonStyle {
+    if (!properties) {
+        return style;
+    }
+
+    const markerSizes = new Map<unknown, number>([
+        ['small', 6.0],
+        ['medium', 10.0],
+        ['large', 16.0],
+    ]);
+    // Values of the wrong type are ignored, like missing ones.
+    const value = <T extends string | number>(key: string, fallback: T): T => {
+        const property = properties[key];
+        return typeof property == typeof fallback ? (property as T) : fallback;
+    };
+
+    return {
+        ...style,
+        stroke: value('stroke', style.stroke),
+        strokeWidth: value('stroke-width', style.strokeWidth),
+        strokeOpacity: value('stroke-opacity', style.strokeOpacity),
+        fill: value('fill', style.fill),
+        fillOpacity: value('fill-opacity', style.fillOpacity),
+        markerColor: value('marker-color', style.markerColor),
+        markerSize:
+            markerSizes.get(properties['marker-size']) || style.markerSize,
+    };
+}
+
+/**
+ * Get the first position of a geometry.
+ */
+function firstPosition(geometry: GeoJsonGeometry): GeoJsonPosition | undefined {
+    switch (geometry.type) {
+        case 'Point':
+            return geometry.coordinates;
+        case 'MultiPoint':
+        case 'LineString':
+            return geometry.coordinates[0];
+        case 'MultiLineString':
+        case 'Polygon':
+            return geometry.coordinates[0] && geometry.coordinates[0][0];
+        case 'MultiPolygon':
+            return (
+                geometry.coordinates[0] &&
+                geometry.coordinates[0][0] &&
+                geometry.coordinates[0][0][0]
+            );
+        case 'GeometryCollection':
+            return geometry.geometries.length > 0
+                ? firstPosition(geometry.geometries[0])
+                : undefined;
+    }
+}
+
+/**
+ * Get the ECEF extent of the vertical columns through a geometry's
+ * positions, from below the terrain to the height clamping rays are cast
+ * from.
+ */
+function featureExtent(
+    geometry: GeoJsonGeometry,
+    geodetic: (position: GeoJsonPosition) => number[]
+): Three.Box3 {
+    const extent = new Three.Box3();
+    const addPositions = (positions: GeoJsonPosition[]): void =>
+        positions.forEach((position) => {
+            const [longitude, latitude] = geodetic(position);
+            [-clampRayHeight, clampRayHeight].forEach((height) =>
+                extent.expandByPoint(
+                    new Three.Vector3().fromArray(
+                        geodeticToEcef.forward([longitude, latitude, height])
+                    )
+                )
+            );
+        });
+
+    switch (geometry.type) {
+        case 'Point':
+            addPositions([geometry.coordinates]);
+            break;
+        case 'MultiPoint':
+        case 'LineString':
+            addPositions(geometry.coordinates);
+            break;
+        case 'MultiLineString':
+        case 'Polygon':
+            geometry.coordinates.forEach(addPositions);
+            break;
+        case 'MultiPolygon':
+            geometry.coordinates.forEach((polygon) =>
+                polygon.forEach(addPositions)
+            );
+            break;
+        case 'GeometryCollection':
+            geometry.geometries.forEach((child) =>
+                extent.union(featureExtent(child, geodetic))
+            );
+            break;
+    }
+
+    return extent;
+}
+
+/**
+ * Make ECEF points relative to the first point, which becomes the origin
+ * of the object, as float32 vertices can't hold ECEF coordinates.
+ * @param points The points
+ * @returns The origin and the relative positions
+ */
+export function relativePositions(
+    points: Three.Vector3[]
+): [Three.Vector3, Float32Array] {
+    const origin = points.length > 0 ? points[0].clone() : new Three.Vector3();
+    const positions = new Float32Array(points.length * 3);
+    points.forEach((point, i) => {
+        positions[i * 3] = point.x - origin.x;
+        positions[i * 3 + 1] = point.y - origin.y;
+        positions[i * 3 + 2] = point.z - origin.z;
+    });
+
+    return [origin, positions];
+}
+
+/** Ellipsoid height from which terrain clamping rays are cast. */
+const clampRayHeight = 10000.0;
@@ -0,0 +1,354 @@
+import * as Three from 'three';
+
+import {
+    ValidationError,
+    describeError,
+    expectBoolean,
+    expectNumber,
+    expectObject,
+} from './validation';
+
+/**
+ * False color palettes, applied to the luminance of the adjusted image:
+ * - none: keep the image's colors
+ * - white-hot: grayscale, bright is hot
+ * - black-hot: inverted grayscale, dark is hot
+ * - ironbow: black through purple, red and yellow to white
+ * - rainbow: blue through green and yellow to red
+ */
+export type Palette =
+    'none' | 'white-hot' | 'black-hot' | 'ironbow' | 'rainbow';
+
+/**
+ * The palettes, for selection in the user interface.
+ */
+export const palettes: Palette[] = [
+    'none',
+    'white-hot',
+    'black-hot',
+    'ironbow',
+    'rainbow',
+];
+
+/**
+ * Image adjustments for the video, e.g. to make thermal video readable.
+ * The levels (black and white) stretch the image's histogram, and are
+ * fractions of the full intensity range. With autoLevels they are instead
+ * computed for every frame. Brightness is added after the contrast is
+ * applied around the middle gray, and gamma is applied last.
+ */
+export interface ImageEnhancement {
+    brightness: number;
+    contrast: number;
+    gamma: number;
+    black: number;
+    white: number;
+    autoLevels: boolean;
+    palette: Palette;
+}
+
+/**
+ * Adjustments that leave the image as it is.
+ */
+export const defaultImageEnhancement: ImageEnhancement = {
+    brightness: 0.0,
+    contrast: 1.0,
+    gamma: 1.0,
+    black: 0.0,
+    white: 1.0,
+    autoLevels: false,
+    palette: 'none',
+};
+
+/**
+ * GLSL uniforms and function for the image adjustments, shared by the
+ * shaders drawing the video. Needs GLSL 3.00.
+ */
+export const imageEnhancementGlsl = `
+uniform vec2 uLevels;
+uniform float uBrightness;
+uniform float uContrast;
+uniform float uGamma;
+uniform bool uUsePalette;
+uniform sampler2D uPalette;
+
+// Adjust a color from the image.
+vec3 enhance(vec3 color) {
+    vec3 c = clamp((color - uLevels.x) / max(uLevels.y - uLevels.x, 1e-3), 0.0, 1.0);
+    c = clamp((c - 0.5) * uContrast + 0.5 + uBrightness, 0.0, 1.0);
+    c = pow(c, vec3(1.0 / uGamma));
+
+    if (uUsePalette) {
+        float luminance = dot(c, vec3(0.299, 0.587, 0.114));
+        c = texture(uPalette, vec2(luminance, 0.5)).rgb;
+    }
+
+    return c;
+}
+`;
+
+/**
+ * Create the uniforms used by imageEnhancementGlsl.
+ * @returns The uniforms, for no adjustment
+ */
+export function createEnhancementUniforms(): {
+    [uniform: string]: Three.IUniform;
+} {
+    return {
+        uLevels: { value: new Three.Vector2(0.0, 1.0) },
+        uBrightness: { value: 0.0 },
+        uContrast: { value: 1.0 },
+        uGamma: { value: 1.0 },
+        uUsePalette: { value: false },
+        uPalette: { value: null },
+    };
+}
+
+/**
+ * Update the uniforms used by imageEnhancementGlsl.
+ * @param uniforms The uniforms
+ * @param enhancement The adjustments
+ * @param levels The black and white levels to use, e.g. from AutoLevels
+ */
+export function setEnhancementUniforms(
+    uniforms: { [uniform: string]: Three.IUniform },
+    enhancement: ImageEnhancement,
+    levels: [number, number]
+): void {
+    uniforms.uLevels.value.set(levels[0], levels[1]);
+    uniforms.uBrightness.value = enhancement.brightness;
+    uniforms.uContrast.value = enhancement.contrast;
+    uniforms.uGamma.value = Math.max(enhancement.gamma, 0.01);
+    uniforms.uUsePalette.value = enhancement.palette != 'none';
+    uniforms.uPalette.value =
+        enhancement.palette != 'none'
+            ? paletteTexture(enhancement.palette)
+            : null;
+}
+
+/**
+ * Computes the levels for a histogram stretch of images, from a small
+ * copy of the image. The levels clip a fraction of the darkest and the
+ * brightest pixels.
+ */
+export class AutoLevels {
+    /**
+     * Create a new instance.
+     * @param clip Fraction of pixels to clip at each end
+     * @param sampleSize Width and height of the copy
+     */
+    public constructor(clip: number = 0.01, sampleSize: number = 128) {
+        this._clip = clip;
+        this._canvas = document.createElement('canvas');
+        this._canvas.width = sampleSize;
+        this._canvas.height = sampleSize;
+        this._context = this._canvas.getContext(
+            '2d'
+        ) as CanvasRenderingContext2D;
+    }
+
+    /**
+     * Compute the levels for an image.
+     * @param image The image or video
+     * @returns The black and white levels, as fractions of the full range
+     */
+    public compute(
+        image: HTMLImageElement | HTMLVideoElement
+    ): [number, number] {
+        const width = this._canvas.width;
+        const height = this._canvas.height;
+
+        let pixels: Uint8ClampedArray;
+        try {
+            this._context.drawImage(image, 0, 0, width, height);
+            pixels = this._context.getImageData(0, 0, width, height).data;
+        } catch (e) {
+            // E.g. a video from another origin, without CORS.
+            if (!this._warned) {
+                console.warn(`Cannot compute auto levels: ${e}`);
+                this._warned = true;
+            }
+            return [0.0, 1.0];
+        }
+
+        const histogram = new Array<number>(256).fill(0);
+        for (let i = 0; i < pixels.length; i += 4) {
+            const luminance =
+                0.299 * pixels[i] +
+                0.587 * pixels[i + 1] +
+                0.114 * pixels[i + 2];
+            ++histogram[Math.round(luminance)];
+        }
+
+        const clipped = this._clip * width * height;
+        let black = 0;
+        for (let sum = 0; black < 255; ++black) {
+            sum += histogram[black];
+            if (sum > clipped) {
+                break;
+            }
+        }
+        let white = 255;
+        for (let sum = 0; white > black; --white) {
+            sum += histogram[white];
+            if (sum > clipped) {
+                break;
+            }
+        }
+
+        return [black / 255.0, Math.max(white, black + 1) / 255.0];
+    }
+
+    private _clip: number;
+    private _canvas: HTMLCanvasElement;
+    private _context: CanvasRenderingContext2D;
+    private _warned = false;
+}
+
+/**
+ * Load the image adjustments saved for a sensor profile. Adjustments that
+ * are missing or invalid, e.g. out of range or an unknown palette, are
+ * the defaults.
+ * @param profile The profile name
+ * @returns The adjustments, the defaults if none are saved
+ */
+export function loadImageEnhancement(profile: string): ImageEnhancement {
+    const enhancement = { ...defaultImageEnhancement };
+    const saved = window.localStorage.getItem(storageKey(profile));
+    if (saved === null) {
+        return enhancement;
+    }
+
+    let data: { [key: string]: unknown };
+    try {
+        data = expectObject(JSON.parse(saved), 'enhancement');
+    } catch (e) {
+        console.warn(
+            `Malformed image enhancement for profile '${profile}': ${describeError(e)}`
+        );
+        return enhancement;
+    }
+
+    const field = (key: keyof ImageEnhancement, parse: () => void): void => {
+        if (data[key] === undefined) {
+            return;
+        }
+
+        try {
+            parse();
+        } catch (e) {
+            console.warn(
+                `Image enhancement for profile '${profile}': ${describeError(e)}, using the default`
+            );
+        }
+    };
+    enhancementRanges.forEach(([min, max], key) =>
+        field(key, () => {
+            enhancement[key] = expectNumber(
+                data[key],
+                `enhancement.${key}`,
+                min,
+                max
+            );
+        })
+    );
+    field('autoLevels', () => {
+        enhancement.autoLevels = expectBoolean(
+            data.autoLevels,
+            'enhancement.autoLevels'
+        );
+    });
+    field('palette', () => {
+        const palette = palettes.find((name) => name == data.palette);
+        if (palette === undefined) {
+            throw new ValidationError(
+                'enhancement.palette',
+                `is '${data.palette}', not a known palette`
+            );
+        }
+        enhancement.palette = palette;
+    });
+
+    return enhancement;
+}
+
+/**
+ * Save the image adjustments for a sensor profile.
+ * @param profile The profile name
+ * @param enhancement The adjustments
+ */
+export function saveImageEnhancement(
+    profile: string,
+    enhancement: ImageEnhancement
+): void {
+    window.localStorage.setItem(
+        storageKey(profile),
+        JSON.stringify(enhancement)
+    );
+}
+
+function storageKey(profile: string): string {
+    return `augmented-video.image-enhancement.${profile}`;
+}
+
+/**
+ * Get the lookup texture for a palette, created on first use.
+ */
+function paletteTexture(palette: Palette): Three.DataTexture {
+    if (!paletteTextures[palette]) {
+        const data = new Uint8Array(256 * 4);
+        for (let i = 0; i < 256; ++i) {
+            const color = paletteColor(palette, i / 255.0);
+            data[i * 4] = Math.round(color.r * 255.0);
+            data[i * 4 + 1] = Math.round(color.g * 255.0);
+            data[i * 4 + 2] = Math.round(color.b * 255.0);
+            data[i * 4 + 3] = 255;
+        }
+
+        const texture = new Three.DataTexture(data, 256, 1, Three.RGBAFormat);
+        texture.magFilter = Three.LinearFilter;
+        texture.minFilter = Three.LinearFilter;
+        texture.needsUpdate = true;
+        paletteTextures[palette] = texture;
+    }
+
+    return paletteTextures[palette];
+}
+
+function paletteColor(palette: Palette, t: number): Three.Color {
+    if (palette == 'black-hot') {
+        return new Three.Color(1.0 - t, 1.0 - t, 1.0 - t);
+    } else if (palette == 'ironbow') {
+        // Interpolate between the stops.
+        const scaled = t * (ironbowStops.length - 1);
+        const index = Math.min(Math.floor(scaled), ironbowStops.length - 2);
+        return new Three.Color(ironbowStops[index]).lerp(
+            new Three.Color(ironbowStops[index + 1]),
+            scaled - index
+        );
+    } else if (palette == 'rainbow') {
+        return new Three.Color().setHSL((1.0 - t) * (2.0 / 3.0), 1.0, 0.5);
+    } else {
+        return new Three.Color(t, t, t);
+    }
+}
+
+const ironbowStops = [
+    0x000000, 0x2b0f6b, 0xa3207e, 0xe8561c, 0xfcc015, 0xffffff,
+];
+
+const paletteTextures: { [palette: string]: Three.DataTexture } = {};
+
+/**
+ * The ranges of the numeric adjustments, as in the calibration panel.
+ */
+const enhancementRanges = new Map<
+    'brightness' | 'contrast' | 'gamma' | 'black' | 'white',
+    [number, number]
+>([
+    ['brightness', [-1.0, 1.0]],
+    ['contrast', [0.0, 4.0]],
+    ['gamma', [0.1, 4.0]],
+    ['black', [0.0, 1.0]],
+    ['white', [0.0, 1.0]],
+]);
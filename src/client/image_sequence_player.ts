@@ -0,0 +1,230 @@
+import { CameraMetadata } from './app_util';
+import { FrameCache, FrameData } from './frame_cache';
+import { LoadReport, warnOnFailure } from './validation';
+import { FramePlayer } from './video_player';
+
+/**
+ * Playback control of a sequence of still images with metadata per frame,
+ * shown at a fixed frame rate. Frame n has the presentation time
+ * n / frameRate. A frame's image and metadata are loaded together and
+ * become current together, when the frame is loaded, so playback skips
+ * frames that load too slowly.
+ */
+export class ImageSequencePlayer implements FramePlayer {
+    /**
+     * Create a new player. Use fetchImageSequencePlayer to get a player
+     * with its first frame loaded.
+     * @param cache Cache of the frames
+     * @param first The loaded first frame
+     * @param frameRate The frame rate
+     * @param report Receiver of frames that fail to load
+     */
+    public constructor(
+        cache: FrameCache,
+        first: FrameData,
+        frameRate: number = 30.0,
+        report: LoadReport = warnOnFailure
+    ) {
+        this._cache = cache;
+        this._current = first;
+        this._requested = first.index;
+        this._frameRate = frameRate;
+        this._report = report;
+
+        this._cache.prefetch(first.index);
+    }
+
+    /**
+     * Get the image of the current frame.
+     * @returns The image
+     */
+    public image(): HTMLImageElement {
+        return this._current.image;
+    }
+
+    /**
+     * Get the metadata of the current frame.
+     * @returns The metadata
+     */
+    public metadata(): CameraMetadata {
+        return this._current.metadata;
+    }
+
+    /**
+     * Get the width of the current frame.
+     * @returns The width in pixels
+     */
+    public width(): number {
+        return this._current.image.naturalWidth;
+    }
+
+    /**
+     * Get the height of the current frame.
+     * @returns The height in pixels
+     */
+    public height(): number {
+        return this._current.image.naturalHeight;
+    }
+
+    /**
+     * Get the presentation time of the current frame.
+     * @returns The time in seconds
+     */
+    public frameTime(): number {
+        return this._current.index / this._frameRate;
+    }
+
+    /**
+     * Get the frame rate.
+     * @returns The frame rate
+     */
+    public frameRate(): number {
+        return this._frameRate;
+    }
+
+    /**
+     * Get the duration of the sequence.
+     * @returns The duration in seconds
+     */
+    public duration(): number {
+        return this._cache.length() / this._frameRate;
+    }
+
+    /**
+     * Check if the sequence is playing.
+     * @returns True if playing
+     */
+    public isPlaying(): boolean {
+        return this._playing;
+    }
+
+    /**
+     * Check if the last requested frame has loaded and is current.
+     * @returns True if ready
+     */
+    public ready(): boolean {
+        return this._current.index == this._requested;
+    }
+
+    /**
+     * Start playback, from the start if at the last frame.
+     */
+    public async play(): Promise<void> {
+        if (this._playing) {
+            return;
+        }
+
+        if (this._requested >= this._cache.length() - 1) {
+            this.load(0);
+        }
+        this._playing = true;
+        this.schedule();
+    }
+
+    /**
+     * Pause playback.
+     */
+    public pause(): void {
+        this._playing = false;
+        if (this._timer !== undefined) {
+            window.clearTimeout(this._timer);
+            this._timer = undefined;
+        }
+    }
+
+    /**
+     * Toggle between play and pause.
+     */
+    public async togglePlay(): Promise<void> {
+        if (this.isPlaying()) {
+            this.pause();
+        } else {
+            await this.play();
+        }
+    }
+
+    /**
+     * Seek to a time. The time is clamped to the sequence.
+     * @param time The time in seconds
+     */
+    public seek(time: number): void {
+        this.load(Math.floor(time * this._frameRate));
+    }
+
+    /**
+     * Pause and step a number of frames forward or backward, from the
+     * last requested frame so that repeated steps add up before the
+     * frames have loaded.
+     * @param frames Number of frames, negative to step backward
+     */
+    public step(frames: number): void {
+        this.pause();
+        this.load(this._requested + frames);
+    }
+
+    /**
+     * Request a frame, and make it current when loaded unless another
+     * frame has been requested meanwhile.
+     */
+    private load(frame: number): void {
+        const clamped = Math.min(Math.max(frame, 0), this._cache.length() - 1);
+        this._requested = clamped;
+        this._cache.prefetch(clamped);
+        this._cache
+            .get(clamped)
+            .then((data) => {
+                if (this._requested == clamped) {
+                    this._current = data;
+                }
+            })
+            .catch((e) => {
+                if (this._requested == clamped) {
+                    this._report(`Frame ${clamped}`, e);
+                }
+            });
+    }
+
+    private schedule(): void {
+        this._timer = window.setTimeout(() => {
+            if (this._requested >= this._cache.length() - 1) {
+                this.pause();
+                return;
+            }
+
+            this.load(this._requested + 1);
+            this.schedule();
+        }, 1000.0 / this._frameRate);
+    }
+
+    private _cache: FrameCache;
+    private _current: FrameData;
+    private _requested: number;
+    private _frameRate: number;
+    private _report: LoadReport;
+    private _playing = false;
+    private _timer?: number;
+}
+
+/**
+ * Async creation of an image sequence player, with its first frame loaded.
+ * @param cache Cache of the frames
+ * @param frameRate The frame rate
+ * @param report Receiver of frames that fail to load
+ * @returns Promise carrying the player
+ */
+export async function fetchImageSequencePlayer(
+    cache: FrameCache,
+    frameRate: number = 30.0,
+    report: LoadReport = warnOnFailure
+): Promise<ImageSequencePlayer> {
+    if (cache.length() == 0) {
+        throw new Error('An image sequence needs at least one image');
+    }
+
+    return new ImageSequencePlayer(
+        cache,
+        await cache.get(0),
+        frameRate,
+        report
+    );
+}
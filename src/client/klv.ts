@@ -0,0 +1,706 @@
+import { degToRad, radToDeg } from 'three/src/math/MathUtils';
+
+import {
+    Metadata,
+    decomposeYPR,
+    fetchArrayBuffer,
+    geodeticToEcefMetadata,
+    matrixYPR,
+} from './app_util';
+import { VerticalDatum, geoidUndulation } from './crs';
+import {
+    InterpolationOptions,
+    MetadataSample,
+    MetadataTrack,
+    defaultInterpolationOptions,
+} from './metadata_track';
+
+/**
+ * The 16 byte universal key for the UAS Datalink Local Set (MISB ST 0601).
+ */
+const uasLocalSetKey = new Uint8Array([
+    0x06, 0x0e, 0x2b, 0x34, 0x02, 0x0b, 0x01, 0x01, 0x0e, 0x01, 0x03, 0x01,
+    0x01, 0x00, 0x00, 0x00,
+]);
+
+/**
+ * The subset of the UAS Datalink Local Set used for camera metadata. All
+ * angles are in degrees, heights in meters.
+ */
+export interface UasDatalinkPacket {
+    /** Precision time stamp, microseconds since 1970-01-01 UTC. */
+    timestamp?: number;
+    platformHeading?: number;
+    platformPitch?: number;
+    platformRoll?: number;
+    sensorLatitude?: number;
+    sensorLongitude?: number;
+    /** Sensor altitude above mean sea level. */
+    sensorTrueAltitude?: number;
+    sensorEllipsoidHeight?: number;
+    sensorHfov?: number;
+    sensorVfov?: number;
+    sensorRelativeAzimuth?: number;
+    sensorRelativeElevation?: number;
+    sensorRelativeRoll?: number;
+}
+
+/**
+ * A KLV packet together with the presentation time stamp of the PES
+ * packet carrying it (if extracted from a transport stream).
+ */
+export interface KlvPacket {
+    bytes: Uint8Array;
+    /** Presentation time in seconds, relative to the stream start. */
+    pts?: number;
+}
+
+/**
+ * Find all UAS Datalink Local Set packets in a buffer. Bytes that are
+ * not part of a packet are skipped.
+ * @param data The data
+ * @returns The packets, each starting with the key
+ */
+export function findUasLocalSets(data: Uint8Array): Uint8Array[] {
+    const packets: Uint8Array[] = [];
+
+    let offset = 0;
+    while (offset + uasLocalSetKey.length < data.length) {
+        if (!matchesKey(data, offset)) {
+            ++offset;
+            continue;
+        }
+
+        const length = readBerLength(data, offset + uasLocalSetKey.length);
+        if (length === undefined) {
+            break;
+        }
+
+        const [valueLength, lengthBytes] = length;
+        const end = offset + uasLocalSetKey.length + lengthBytes + valueLength;
+        if (end > data.length) {
+            console.warn(`Truncated KLV packet at byte ${offset}`);
+            break;
+        }
+
+        packets.push(data.subarray(offset, end));
+        offset = end;
+    }
+
+    return packets;
+}
+
+/**
+ * Decode a UAS Datalink Local Set packet. The packet's checksum is
+ * validated.
+ * @param packet The packet, starting with the key
+ * @returns The decoded packet, or undefined if the packet is invalid
+ */
+export function decodeUasLocalSet(
+    packet: Uint8Array
+): UasDatalinkPacket | undefined {
+    const length = readBerLength(packet, uasLocalSetKey.length);
+    if (!matchesKey(packet, 0) || length === undefined) {
+        return undefined;
+    }
+
+    const view = new DataView(
+        packet.buffer,
+        packet.byteOffset,
+        packet.byteLength
+    );
+    const decoded: UasDatalinkPacket = {};
+    let checksumValid = false;
+
+    let offset = uasLocalSetKey.length + length[1];
+    while (offset < packet.length) {
+        const tag = readBerOid(packet, offset);
+        if (tag === undefined) {
+            return undefined;
+        }
+
+        const itemLength = readBerLength(packet, offset + tag[1]);
+        if (itemLength === undefined) {
+            return undefined;
+        }
+
+        const valueOffset = offset + tag[1] + itemLength[1];
+        const valueLength = itemLength[0];
+        if (valueOffset + valueLength > packet.length) {
+            return undefined;
+        }
+
+        if (tag[0] == 1) {
+            // The checksum covers everything up to, and including, the
+            // checksum's own tag and length.
+            checksumValid =
+                valueLength == 2 &&
+                view.getUint16(valueOffset) == checksum(packet, valueOffset);
+        } else {
+            decodeItem(view, tag[0], valueOffset, valueLength, decoded);
+        }
+
+        offset = valueOffset + valueLength;
+    }
+
+    if (!checksumValid) {
+        console.warn('KLV packet with missing or bad checksum');
+        return undefined;
+    }
+
+    return decoded;
+}
+
+/**
+ * Convert a decoded packet to camera metadata. The camera orientation
+ * is the platform attitude combined with the sensor relative angles.
+ * The ellipsoid height is used if present, otherwise the true altitude
+ * above mean sea level plus the geoid undulation of the vertical datum.
+ * @param packet The decoded packet
+ * @param verticalDatum The datum of the true altitude. Without it, only
+ * packets with an ellipsoid height are converted
+ * @returns The metadata, or undefined if the packet lacks position,
+ * height, heading or field of view
+ */
+export function uasDatalinkToMetadata(
+    packet: UasDatalinkPacket,
+    verticalDatum?: VerticalDatum
+): Metadata | undefined {
+    if (
+        packet.sensorLatitude === undefined ||
+        packet.sensorLongitude === undefined ||
+        packet.platformHeading === undefined ||
+        packet.sensorHfov === undefined ||
+        packet.sensorVfov === undefined
+    ) {
+        return undefined;
+    }
+
+    let height = packet.sensorEllipsoidHeight;
+    if (
+        height === undefined &&
+        packet.sensorTrueAltitude !== undefined &&
+        verticalDatum
+    ) {
+        height =
+            packet.sensorTrueAltitude +
+            geoidUndulation(
+                verticalDatum,
+                packet.sensorLatitude,
+                packet.sensorLongitude
+            );
+    }
+    if (height === undefined) {
+        return undefined;
+    }
+
+    // Camera orientation in the local NED frame.
+    const rotation = matrixYPR(
+        degToRad(packet.platformHeading),
+        degToRad(packet.platformPitch || 0.0),
+        degToRad(packet.platformRoll || 0.0)
+    ).multiply(
+        matrixYPR(
+            degToRad(packet.sensorRelativeAzimuth || 0.0),
+            degToRad(packet.sensorRelativeElevation || 0.0),
+            degToRad(packet.sensorRelativeRoll || 0.0)
+        )
+    );
+    const [yaw, pitch, roll] = decomposeYPR(rotation);
+
+    return geodeticToEcefMetadata({
+        latitude: packet.sensorLatitude,
+        longitude: packet.sensorLongitude,
+        height: height,
+        yaw: radToDeg(yaw),
+        pitch: radToDeg(pitch),
+        roll: radToDeg(roll),
+        hfov: packet.sensorHfov,
+        vfov: packet.sensorVfov,
+    });
+}
+
+/**
+ * Extract the KLV metadata packets from an MPEG transport stream. The
+ * metadata streams are found from the program map tables, either as
+ * synchronous metadata (stream type 0x15) or private data registered
+ * as 'KLVA'.
+ * @param data The transport stream
+ * @returns The packets, with presentation time relative to the first
+ * time stamp in the stream
+ */
+export function extractKlvFromTransportStream(data: Uint8Array): KlvPacket[] {
+    const packetSize = 188;
+    const pmtPids = new Set<number>();
+    const klvPids = new Set<number>();
+    const pending = new Map<number, { chunks: Uint8Array[] }>();
+    const packets: KlvPacket[] = [];
+    let firstPts: number | undefined = undefined;
+
+    const flush = (pid: number) => {
+        const pes = pending.get(pid);
+        pending.delete(pid);
+        if (pes === undefined) {
+            return;
+        }
+
+        const payload = concat(pes.chunks);
+        const header = parsePesHeader(payload);
+        if (header === undefined) {
+            return;
+        }
+
+        const pts =
+            header.pts !== undefined && firstPts !== undefined
+                ? unwrapPts(header.pts - firstPts) / 90000.0
+                : undefined;
+        findUasLocalSets(payload.subarray(header.length)).forEach((bytes) =>
+            packets.push({ bytes: bytes, pts: pts })
+        );
+    };
+
+    for (let offset = 0; offset + packetSize <= data.length;) {
+        if (data[offset] != 0x47) {
+            // Lost sync, find the next sync byte.
+            ++offset;
+            continue;
+        }
+
+        const packet = data.subarray(offset, offset + packetSize);
+        offset += packetSize;
+
+        const unitStart = (packet[1] & 0x40) != 0;
+        const pid = ((packet[1] & 0x1f) << 8) | packet[2];
+        const adaptation = (packet[3] >> 4) & 0x03;
+        if ((adaptation & 0x01) == 0) {
+            continue;
+        }
+
+        const payloadStart = adaptation == 0x03 ? 5 + packet[4] : 4;
+        if (payloadStart >= packetSize) {
+            continue;
+        }
+        const payload = packet.subarray(payloadStart);
+
+        if (pid == 0 && unitStart) {
+            parsePat(payload).forEach((pmtPid) => pmtPids.add(pmtPid));
+        } else if (pmtPids.has(pid) && unitStart) {
+            parsePmt(payload).forEach((klvPid) => klvPids.add(klvPid));
+        } else if (unitStart && firstPts === undefined) {
+            // Zero time is the first time stamp of any elementary stream.
+            const header = parsePesHeader(payload);
+            if (header !== undefined && header.pts !== undefined) {
+                firstPts = header.pts;
+            }
+        }
+
+        if (klvPids.has(pid)) {
+            if (unitStart) {
+                flush(pid);
+                pending.set(pid, { chunks: [] });
+            }
+
+            const pes = pending.get(pid);
+            if (pes !== undefined) {
+                pes.chunks.push(payload);
+            }
+        }
+    }
+
+    klvPids.forEach((pid) => flush(pid));
+
+    return packets;
+}
+
+/**
+ * Decode KLV packets to metadata samples. Packets with a presentation
+ * time stamp are timed by it, otherwise by the precision time stamp
+ * relative to the first packet's. Invalid packets, and packets without
+ * enough data for a camera, are skipped.
+ * @param packets The packets
+ * @param verticalDatum The datum of true altitudes (see
+ * uasDatalinkToMetadata)
+ * @returns The samples
+ */
+export function decodeKlvPackets(
+    packets: KlvPacket[],
+    verticalDatum?: VerticalDatum
+): MetadataSample[] {
+    const samples: MetadataSample[] = [];
+    let firstTimestamp: number | undefined = undefined;
+    let withoutDatum = 0;
+
+    packets.forEach((packet) => {
+        const decoded = decodeUasLocalSet(packet.bytes);
+        if (decoded === undefined) {
+            return;
+        }
+
+        if (firstTimestamp === undefined) {
+            firstTimestamp = decoded.timestamp;
+        }
+
+        let time: number | undefined = packet.pts;
+        if (
+            time === undefined &&
+            decoded.timestamp !== undefined &&
+            firstTimestamp !== undefined
+        ) {
+            time = (decoded.timestamp - firstTimestamp) / 1000000.0;
+        }
+
+        const metadata = uasDatalinkToMetadata(decoded, verticalDatum);
+        if (time !== undefined && metadata !== undefined) {
+            samples.push({ time: time, metadata: metadata });
+        } else if (
+            metadata === undefined &&
+            decoded.sensorEllipsoidHeight === undefined &&
+            decoded.sensorTrueAltitude !== undefined &&
+            !verticalDatum
+        ) {
+            withoutDatum++;
+        }
+    });
+
+    if (withoutDatum > 0) {
+        console.warn(
+            `${withoutDatum} KLV packets with only a true altitude skipped, as its vertical datum is not known`
+        );
+    }
+
+    return samples;
+}
+
+/**
+ * Async fetch of a KLV metadata track. The data is either a transport
+ * stream or raw KLV packets.
+ * @param url Data URL
+ * @param options Interpolation options
+ * @param verticalDatum The datum of true altitudes (see
+ * uasDatalinkToMetadata)
+ * @returns Promise carrying the track
+ */
+export async function fetchKlvMetadataTrack(
+    url: string,
+    options: InterpolationOptions = defaultInterpolationOptions,
+    verticalDatum?: VerticalDatum
+): Promise<MetadataTrack> {
+    const data = new Uint8Array(await fetchArrayBuffer(url));
+    const packets = isTransportStream(data)
+        ? extractKlvFromTransportStream(data)
+        : findUasLocalSets(data).map((bytes) => ({ bytes: bytes }));
+
+    return new MetadataTrack(decodeKlvPackets(packets, verticalDatum), options);
+}
+
+/**
+ * The value lengths, in bytes, of the decoded local set items.
+ */
+const itemLengths: { [tag: number]: number } = {
+    2: 8,
+    5: 2,
+    6: 2,
+    7: 2,
+    13: 4,
+    14: 4,
+    15: 2,
+    16: 2,
+    17: 2,
+    18: 4,
+    19: 4,
+    20: 4,
+    75: 2,
+    90: 4,
+    91: 4,
+};
+
+/**
+ * Decode one local set item into the packet. Items of unknown tag or
+ * unexpected length are ignored.
+ */
+function decodeItem(
+    view: DataView,
+    tag: number,
+    offset: number,
+    length: number,
+    decoded: UasDatalinkPacket
+): void {
+    const int16 = (range: number) => {
+        const value = view.getInt16(offset);
+        return value == -0x8000 ? undefined : (value * range) / 0xfffe;
+    };
+    const int32 = (range: number) => {
+        const value = view.getInt32(offset);
+        return value == -0x80000000 ? undefined : (value * range) / 0xfffffffe;
+    };
+    const uint16 = (range: number) => (view.getUint16(offset) * range) / 0xffff;
+    const uint32 = (range: number) =>
+        (view.getUint32(offset) * range) / 0xffffffff;
+
+    if (itemLengths[tag] != length) {
+        return;
+    }
+
+    switch (tag) {
+        case 2:
+            decoded.timestamp =
+                view.getUint32(offset) * 4294967296.0 +
+                view.getUint32(offset + 4);
+            break;
+        case 5:
+            decoded.platformHeading = uint16(360.0);
+            break;
+        case 6:
+            if (decoded.platformPitch === undefined) {
+                decoded.platformPitch = int16(40.0);
+            }
+            break;
+        case 7:
+            if (decoded.platformRoll === undefined) {
+                decoded.platformRoll = int16(100.0);
+            }
+            break;
+        case 13:
+            decoded.sensorLatitude = int32(180.0);
+            break;
+        case 14:
+            decoded.sensorLongitude = int32(360.0);
+            break;
+        case 15:
+            decoded.sensorTrueAltitude = uint16(19900.0) - 900.0;
+            break;
+        case 16:
+            decoded.sensorHfov = uint16(180.0);
+            break;
+        case 17:
+            decoded.sensorVfov = uint16(180.0);
+            break;
+        case 18:
+            decoded.sensorRelativeAzimuth = uint32(360.0);
+            break;
+        case 19:
+            decoded.sensorRelativeElevation = int32(360.0);
+            break;
+        case 20:
+            decoded.sensorRelativeRoll = uint32(360.0);
+            break;
+        case 75:
+            decoded.sensorEllipsoidHeight = uint16(19900.0) - 900.0;
+            break;
+        case 90:
+            // Full range platform pitch, preferred over tag 6.
+            decoded.platformPitch = int32(180.0);
+            break;
+        case 91:
+            // Full range platform roll, preferred over tag 7.
+            decoded.platformRoll = int32(180.0);
+            break;
+        default:
+            break;
+    }
+}
+
+/**
+ * Compute the running 16 bit sum checksum of MISB ST 0601.
+ */
+function checksum(data: Uint8Array, length: number): number {
+    let sum = 0;
+    for (let i = 0; i < length; ++i) {
+        sum += data[i] << (8 * ((i + 1) % 2));
+    }
+
+    return sum & 0xffff;
+}
+
+function matchesKey(data: Uint8Array, offset: number): boolean {
+    if (offset + uasLocalSetKey.length > data.length) {
+        return false;
+    }
+
+    for (let i = 0; i < uasLocalSetKey.length; ++i) {
+        if (data[offset + i] != uasLocalSetKey[i]) {
+            return false;
+        }
+    }
+
+    return true;
+}
+
+/**
+ * Read a BER encoded length.
+ * @returns [length, number of bytes used], or undefined if truncated
+ */
+function readBerLength(
+    data: Uint8Array,
+    offset: number
+): [number, number] | undefined {
+    if (offset >= data.length) {
+        return undefined;
+    }
+
+    const first = data[offset];
+    if ((first & 0x80) == 0) {
+        return [first, 1];
+    }
+
+    const count = first & 0x7f;
+    if (count > 4 || offset + count >= data.length) {
+        return undefined;
+    }
+
+    let length = 0;
+    for (let i = 1; i <= count; ++i) {
+        length = length * 256 + data[offset + i];
+    }
+
+    return [length, count + 1];
+}
+
+/**
+ * Read a BER-OID encoded tag.
+ * @returns [tag, number of bytes used], or undefined if truncated
+ */
+function readBerOid(
+    data: Uint8Array,
+    offset: number
+): [number, number] | undefined {
+    let tag = 0;
+    for (let i = offset; i < data.length && i < offset + 4; ++i) {
+        tag = tag * 128 + (data[i] & 0x7f);
+        if ((data[i] & 0x80) == 0) {
+            return [tag, i - offset + 1];
+        }
+    }
+
+    return undefined;
+}
+
+function isTransportStream(data: Uint8Array): boolean {
+    return data.length >= 188 * 2 && data[0] == 0x47 && data[188] == 0x47;
+}
+
+/**
+ * Parse a program association table.
+ * @returns The PIDs of the program map tables
+ */
+function parsePat(payload: Uint8Array): number[] {
+    const section = payload.subarray(1 + payload[0]);
+    const sectionLength = ((section[1] & 0x0f) << 8) | section[2];
+    const end = Math.min(3 + sectionLength - 4, section.length);
+
+    const pids: number[] = [];
+    for (let i = 8; i + 4 <= end; i += 4) {
+        const program = (section[i] << 8) | section[i + 1];
+        if (program != 0) {
+            pids.push(((section[i + 2] & 0x1f) << 8) | section[i + 3]);
+        }
+    }
+
+    return pids;
+}
+
+/**
+ * Parse a program map table.
+ * @returns The PIDs of the KLV metadata streams
+ */
+function parsePmt(payload: Uint8Array): number[] {
+    const section = payload.subarray(1 + payload[0]);
+    const sectionLength = ((section[1] & 0x0f) << 8) | section[2];
+    const end = Math.min(3 + sectionLength - 4, section.length);
+    const programInfoLength = ((section[10] & 0x0f) << 8) | section[11];
+
+    const pids: number[] = [];
+    for (let i = 12 + programInfoLength; i + 5 <= end;) {
+        const streamType = section[i];
+        const pid = ((section[i + 1] & 0x1f) << 8) | section[i + 2];
+        const infoLength = ((section[i + 3] & 0x0f) << 8) | section[i + 4];
+        const descriptors = section.subarray(i + 5, i + 5 + infoLength);
+
+        if (
+            streamType == 0x15 ||
+            (streamType == 0x06 && hasKlvaRegistration(descriptors))
+        ) {
+            pids.push(pid);
+        }
+
+        i += 5 + infoLength;
+    }
+
+    return pids;
+}
+
+function hasKlvaRegistration(descriptors: Uint8Array): boolean {
+    for (let i = 0; i + 2 <= descriptors.length;) {
+        const tag = descriptors[i];
+        const length = descriptors[i + 1];
+        if (
+            tag == 0x05 &&
+            length >= 4 &&
+            String.fromCharCode(
+                descriptors[i + 2],
+                descriptors[i + 3],
+                descriptors[i + 4],
+                descriptors[i + 5]
+            ) == 'KLVA'
+        ) {
+            return true;
+        }
+
+        i += 2 + length;
+    }
+
+    return false;
+}
+
+/**
+ * Parse a PES packet header.
+ * @returns The header length and the PTS (in 90 kHz ticks), or undefined
+ * if not a PES packet
+ */
+function parsePesHeader(
+    payload: Uint8Array
+): { length: number; pts?: number } | undefined {
+    if (
+        payload.length < 9 ||
+        payload[0] != 0x00 ||
+        payload[1] != 0x00 ||
+        payload[2] != 0x01
+    ) {
+        return undefined;
+    }
+
+    const length = 9 + payload[8];
+    if ((payload[7] & 0x80) == 0 || payload.length < 14) {
+        return { length: length };
+    }
+
+    const pts =
+        (payload[9] & 0x0e) * 536870912.0 + // << 29
+        (payload[10] << 22) +
+        ((payload[11] & 0xfe) << 14) +
+        (payload[12] << 7) +
+        (payload[13] >> 1);
+
+    return { length: length, pts: pts };
+}
+
+/**
+ * Unwrap a PTS difference across the 33 bit roll over.
+ */
+function unwrapPts(delta: number): number {
+    const range = 8589934592.0; // 2^33
+    return delta < -range / 2 ? delta + range : delta;
+}
+
+function concat(chunks: Uint8Array[]): Uint8Array {
+    const length = chunks.reduce((sum, chunk) => sum + chunk.length, 0);
+    const data = new Uint8Array(length);
+
+    let offset = 0;
+    chunks.forEach((chunk) => {
+        data.set(chunk, offset);
+        offset += chunk.length;
+    });
+
+    return data;
+}
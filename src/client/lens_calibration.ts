@@ -0,0 +1,231 @@
+import * as Three from 'three';
+import { degToRad } from 'three/src/math/MathUtils';
+
+import { Metadata } from './app_util';
+
+/**
+ * Intrinsic lens calibration for a camera.
+ *
+ * The principal point offset (cx, cy) is given as a fraction of the image
+ * width and height, measured from the image center with x to the right and
+ * y down. The distortion coefficients apply to normalized camera
+ * coordinates, i.e. for the ideal pinhole camera given by the metadata's
+ * field of view, where a point at (x, y, 1) in camera space has normalized
+ * coordinates (x, y).
+ *
+ * The Brown-Conrady model uses the radial coefficients k1, k2 and k3 and
+ * the tangential coefficients p1 and p2. The fisheye (equidistant) model
+ * uses k1 to k4 on the angle from the optical axis.
+ */
+export interface LensCalibration {
+    model?: 'brown-conrady' | 'fisheye';
+    cx?: number;
+    cy?: number;
+    k1?: number;
+    k2?: number;
+    k3?: number;
+    k4?: number;
+    p1?: number;
+    p2?: number;
+}
+
+/**
+ * Apply lens distortion to a point in normalized camera coordinates.
+ * This is the same model as in lensDistortionGlsl.
+ * @param calibration The calibration
+ * @param x Undistorted x coordinate
+ * @param y Undistorted y coordinate
+ * @returns The distorted coordinates [x, y]
+ */
+export function distortPoint(
+    calibration: LensCalibration,
+    x: number,
+    y: number
+): [number, number] {
+    const k1 = calibration.k1 || 0.0;
+    const k2 = calibration.k2 || 0.0;
+    const k3 = calibration.k3 || 0.0;
+
+    if (calibration.model == 'fisheye') {
+        const k4 = calibration.k4 || 0.0;
+        const r = Math.sqrt(x * x + y * y);
+        if (r < 1e-9) {
+            return [x, y];
+        }
+
+        const theta = Math.atan(r);
+        const theta2 = theta * theta;
+        const thetaD =
+            theta *
+            (1.0 + theta2 * (k1 + theta2 * (k2 + theta2 * (k3 + theta2 * k4))));
+
+        return [(x * thetaD) / r, (y * thetaD) / r];
+    } else {
+        const p1 = calibration.p1 || 0.0;
+        const p2 = calibration.p2 || 0.0;
+        const r2 = x * x + y * y;
+        const radial = 1.0 + r2 * (k1 + r2 * (k2 + r2 * k3));
+
+        return [
+            x * radial + 2.0 * p1 * x * y + p2 * (r2 + 2.0 * x * x),
+            y * radial + p1 * (r2 + 2.0 * y * y) + 2.0 * p2 * x * y,
+        ];
+    }
+}
+
+/**
+ * Remove lens distortion from a point in normalized camera coordinates,
+ * the inverse of distortPoint. The inverse has no closed form, and is
+ * found by fixed point iteration.
+ * @param calibration The calibration
+ * @param x Distorted x coordinate
+ * @param y Distorted y coordinate
+ * @returns The undistorted coordinates [x, y]
+ */
+export function undistortPoint(
+    calibration: LensCalibration,
+    x: number,
+    y: number
+): [number, number] {
+    let ux = x;
+    let uy = y;
+    for (let i = 0; i < 20; ++i) {
+        const [dx, dy] = distortPoint(calibration, ux, uy);
+        const ex = x - dx;
+        const ey = y - dy;
+        ux += ex;
+        uy += ey;
+
+        if (ex * ex + ey * ey < 1e-24) {
+            break;
+        }
+    }
+
+    return [ux, uy];
+}
+
+/**
+ * Map a texture coordinate of the ideal pinhole image to the coordinate
+ * in the distorted image, as undistortedUv in lensDistortionGlsl does.
+ * @param metadata The metadata, with field of view and calibration
+ * @param u Texture coordinate, from the left
+ * @param v Texture coordinate, from the bottom
+ * @returns The coordinates [u, v] in the distorted image
+ */
+export function undistortedUv(
+    metadata: Metadata,
+    u: number,
+    v: number
+): [number, number] {
+    const calibration = metadata.calibration || {};
+    const tanX = Math.tan(degToRad(metadata.hfov) / 2.0);
+    const tanY = Math.tan(degToRad(metadata.vfov) / 2.0);
+    const cx = calibration.cx || 0.0;
+    const cy = calibration.cy || 0.0;
+
+    // Image coordinates relative the center, y down.
+    const [x, y] = distortPoint(
+        calibration,
+        (u - 0.5 - cx) * 2.0 * tanX,
+        (0.5 - v - cy) * 2.0 * tanY
+    );
+
+    return [x / (2.0 * tanX) + cx + 0.5, 0.5 - (y / (2.0 * tanY) + cy)];
+}
+
+/**
+ * GLSL uniforms and functions for lens distortion, shared by the shaders
+ * drawing the video. undistortedUv maps a texture coordinate of the ideal
+ * pinhole image to the coordinate in the distorted image.
+ */
+export const lensDistortionGlsl = `
+uniform bool uFisheye;
+uniform vec2 uTanHalfFov;
+uniform vec2 uPrincipalPoint;
+uniform vec4 uRadial;
+uniform vec2 uTangential;
+
+// Apply lens distortion to normalized camera coordinates (y down).
+vec2 distort(vec2 p) {
+    if (uFisheye) {
+        float r = length(p);
+        if (r < 1e-9) {
+            return p;
+        }
+
+        float theta = atan(r);
+        float theta2 = theta * theta;
+        float thetaD = theta * (1.0 + theta2 * (uRadial.x + theta2 *
+            (uRadial.y + theta2 * (uRadial.z + theta2 * uRadial.w))));
+
+        return p * thetaD / r;
+    } else {
+        float r2 = dot(p, p);
+        float radial = 1.0 + r2 * (uRadial.x + r2 * (uRadial.y + r2 * uRadial.z));
+        float p1 = uTangential.x;
+        float p2 = uTangential.y;
+
+        return vec2(
+            p.x * radial + 2.0 * p1 * p.x * p.y + p2 * (r2 + 2.0 * p.x * p.x),
+            p.y * radial + p1 * (r2 + 2.0 * p.y * p.y) + 2.0 * p2 * p.x * p.y
+        );
+    }
+}
+
+// Find the coordinate in the distorted image for the pinhole image.
+vec2 undistortedUv(vec2 uv) {
+    // Image coordinates relative the center, y down.
+    vec2 image = vec2(uv.x - 0.5, 0.5 - uv.y);
+
+    vec2 camera = (image - uPrincipalPoint) * 2.0 * uTanHalfFov;
+    vec2 distorted = distort(camera) / (2.0 * uTanHalfFov) + uPrincipalPoint;
+
+    return vec2(distorted.x + 0.5, 0.5 - distorted.y);
+}
+`;
+
+/**
+ * Create the uniforms used by lensDistortionGlsl.
+ * @returns The uniforms, for no distortion
+ */
+export function createLensUniforms(): { [uniform: string]: Three.IUniform } {
+    return {
+        uFisheye: { value: false },
+        uTanHalfFov: { value: new Three.Vector2(1.0, 1.0) },
+        uPrincipalPoint: { value: new Three.Vector2() },
+        uRadial: { value: new Three.Vector4() },
+        uTangential: { value: new Three.Vector2() },
+    };
+}
+
+/**
+ * Update the uniforms used by lensDistortionGlsl from metadata.
+ * @param uniforms The uniforms
+ * @param metadata The metadata, with field of view and calibration
+ */
+export function setLensUniforms(
+    uniforms: { [uniform: string]: Three.IUniform },
+    metadata: Metadata
+): void {
+    const calibration = metadata.calibration || {};
+
+    uniforms.uFisheye.value = calibration.model == 'fisheye';
+    uniforms.uTanHalfFov.value.set(
+        Math.tan(degToRad(metadata.hfov) / 2.0),
+        Math.tan(degToRad(metadata.vfov) / 2.0)
+    );
+    uniforms.uPrincipalPoint.value.set(
+        calibration.cx || 0.0,
+        calibration.cy || 0.0
+    );
+    uniforms.uRadial.value.set(
+        calibration.k1 || 0.0,
+        calibration.k2 || 0.0,
+        calibration.k3 || 0.0,
+        calibration.k4 || 0.0
+    );
+    uniforms.uTangential.value.set(
+        calibration.p1 || 0.0,
+        calibration.p2 || 0.0
+    );
+}
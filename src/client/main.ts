@@ -1,6 +1,7 @@
 import * as Three from 'three';
 import { degToRad } from 'three/src/math/MathUtils';
 import Stats from 'three/examples/jsm/libs/stats.module';
+import { OrbitControls } from 'three/examples/jsm/controls/OrbitControls';
 
 import {
     Metadata,
@@ -10,76 +11,330 @@ import {
     createPerspectiveCamera,
     createRenderer,
     createUtmToEcefConverter,
+    downloadBlob,
     fetchCollada,
     fetchImage,
-    fetchRewriteAndLoadColladaTerrainTiles,
     setCameraMetadata,
     setDrawingArea,
+    toEcefMetadata,
     withinDrawingNDC,
-    fetchJSON,
 } from './app_util';
-import { VideoOverlay } from './video_overlay';
+import { AnnotationPanel } from './annotation_panel';
+import {
+    AnnotationLayer,
+    loadAnnotations,
+    saveAnnotations,
+} from './annotations';
+import { CalibrationPanel } from './calibration_panel';
+import { DiagnosticsPanel } from './diagnostics_panel';
+import { ExportPanel } from './export_panel';
+import {
+    ClipRecorder,
+    FrameExporter,
+    FrameSidecar,
+    saveFrame,
+} from './frame_export';
+import { GeoQuery, ecefToGeodetic } from './geo_query';
+import { AutoLevels } from './image_enhancement';
+import { undistortedUv } from './lens_calibration';
+import { MeasurementTool } from './measurement';
+import { InterpolationResult } from './metadata_track';
+import {
+    MissionManifest,
+    MissionTerrain,
+    demoManifest,
+    demoVideoManifest,
+    fetchManifest,
+    loadMissionLayers,
+    loadMissionPlayer,
+    loadMissionTerrain,
+    loadMissionTrack,
+    parseManifest,
+    readManifestFile,
+} from './mission_manifest';
+import {
+    PoseOffsets,
+    applyPoseOffsets,
+    loadFrameCorrections,
+    saveFrameCorrections,
+} from './pose_offsets';
+import { refinePose } from './pose_refinement';
+import { RefinementPanel } from './refinement_panel';
+import { DepthPicker, raycastTerrain } from './terrain_picker';
+import { VideoOverlay, compositingModes } from './video_overlay';
+import { VideoProjector } from './video_projector';
+import { LineOfSightOverlay, Viewshed, lineOfSight } from './viewshed';
 
 /**
  * Kick-start the application.
  */
 window.onload = simplestTerrainDemo;
 
-function metadataUrl(n: number): string {
-    return `./content/demo1/meta/${n}.json`;
-}
+const observerHeight = 2.0;
+const viewshedRange = 5000.0;
 
-function imageUrl(n: number): string {
-    return `./content/demo1/images/${n}.png`;
-}
+/**
+ * Time in milliseconds without terrain changes before the vector layers
+ * are rebuilt for them.
+ */
+const layerRebuildDelay = 500.0;
+
+/**
+ * Keyboard nudging of pose offsets, with shift held: the offset and the
+ * step for each key.
+ */
+const poseNudges: { [code: string]: [keyof PoseOffsets, number][] } = {
+    ArrowLeft: [['yaw', -0.05]],
+    ArrowRight: [['yaw', 0.05]],
+    ArrowUp: [['pitch', 0.05]],
+    ArrowDown: [['pitch', -0.05]],
+    KeyQ: [['roll', -0.05]],
+    KeyE: [['roll', 0.05]],
+    Minus: [
+        ['hfov', -0.05],
+        ['vfov', -0.05],
+    ],
+    Equal: [
+        ['hfov', 0.05],
+        ['vfov', 0.05],
+    ],
+};
+
+/**
+ * Session storage key of a manifest dropped on the page.
+ */
+const droppedManifestKey = 'augmented-video.dropped-manifest';
 
 async function simplestTerrainDemo() {
+    // What has loaded and what has failed, shown on failures.
+    const diagnostics = new DiagnosticsPanel();
+    const report = diagnostics.reporter();
+
+    // Dropping a manifest on the page loads it instead of the current
+    // mission, also if the current one failed to load.
+    document.body.ondragover = (event) => event.preventDefault();
+    document.body.ondrop = (event) => {
+        event.preventDefault();
+        const file =
+            event.dataTransfer && event.dataTransfer.files.length > 0
+                ? event.dataTransfer.files[0]
+                : undefined;
+        if (file) {
+            readManifestFile(file)
+                .then((dropped) => {
+                    window.sessionStorage.setItem(
+                        droppedManifestKey,
+                        JSON.stringify(dropped)
+                    );
+
+                    // Reload without a manifest URL parameter, which
+                    // would take precedence.
+                    const url = new URL(window.location.href);
+                    url.searchParams.delete('manifest');
+                    window.location.assign(url.href);
+                })
+                .catch((e) => {
+                    diagnostics.failed('Dropped manifest', e);
+                });
+        }
+    };
+
     try {
         const scene = createEmptyScene();
         const camera = createPerspectiveCamera();
 
-        // Elf model for silly fun.
-        const elf = await fetchCollada('./content/collada/elf.dae');
+        // The mission, the demo (not checked in) unless another manifest
+        // is given.
+        const manifest = await missionManifest();
+        diagnostics.loaded('Manifest', manifest.name);
+
+        // Load the sensor's frames, and the metadata track of a video.
+        const track = await loadMissionTrack(manifest, report);
+        if (track) {
+            diagnostics.loaded('Metadata track', `${track.length()} samples`);
+        }
+        const player = await loadMissionPlayer(manifest, report);
+        diagnostics.loaded(
+            manifest.source.type == 'video' ? 'Video' : 'Image sequence',
+            `${player.width()}x${player.height()}`
+        );
 
-        // Load initial metadata (not checked in).
-        const metadata = await fetchJSON<Metadata>(metadataUrl(0));
+        // The metadata of the presented frame: the frame's own metadata,
+        // which is loaded and made current together with its image, or
+        // else interpolated from the track.
+        const frameMetadata = (): InterpolationResult => {
+            const own = player.metadata();
+            if (own) {
+                return { status: 'inside', metadata: toEcefMetadata(own) };
+            }
+            return track
+                ? track.interpolate(player.frameTime())
+                : { status: 'empty' };
+        };
+        // Corrections of the metadata, for the sensor's bias, and the
+        // adjustments of the sensor's images.
+        var poseChanged = false;
+        var enhancementChanged = true;
+        const calibrationPanel = new CalibrationPanel(
+            manifest.sensor && manifest.sensor.profile
+                ? manifest.sensor.profile
+                : manifest.name || 'default',
+            () => {
+                poseChanged = true;
+            },
+            () => {
+                enhancementChanged = true;
+            }
+        );
+        calibrationPanel.setVisible(false);
+        const autoLevels = new AutoLevels();
+
+        var frameTime = player.frameTime();
+        const initial = frameMetadata();
+        if (!initial.metadata) {
+            throw new Error(
+                `No metadata for the frame at ${frameTime}s: the metadata track is ${initial.status}`
+            );
+        }
+        var trackStatus = initial.status;
+        var trackMetadata = initial.metadata;
+
+        // Metadata accepted from pose refinement for single frames, which
+        // replaces the track's corrected metadata. Saved per mission, by
+        // frame index.
+        const mission = manifest.name || 'default';
+        const frameCorrections = loadFrameCorrections(mission);
+        const frameIndex = () => Math.round(frameTime * player.frameRate());
+        const correctedMetadata = (): Metadata => {
+            const corrected = frameCorrections.get(frameIndex());
+            return corrected
+                ? corrected
+                : applyPoseOffsets(trackMetadata, calibrationPanel.offsets());
+        };
+
+        var metadata = correctedMetadata();
         setCameraMetadata(camera, metadata);
 
         const renderer = createRenderer(camera.aspect);
         document.body.append(renderer.domElement);
 
-        // Load terrain data (not checked in).
-        const converter = createUtmToEcefConverter(10);
-        const [terrainBox, terrain] =
-            await fetchRewriteAndLoadColladaTerrainTiles(
-                [
-                    './content/demo1/tiles/13/4195/13_4195_4757/13_4195_4757.dae',
-                    './content/demo1/tiles/13/4195/13_4195_4758/13_4195_4758.dae',
-                    './content/demo1/tiles/13/4196/13_4196_4757/13_4196_4757.dae',
-                    './content/demo1/tiles/13/4196/13_4196_4758/13_4196_4758.dae',
-                ],
-                converter
-            );
-        terrain.forEach((tile) => {
-            scene.add(tile);
+        // Load the terrain, with streamed tiles loaded as needed.
+        const terrain = await loadMissionTerrain(manifest, report);
+        scene.add(terrain.root);
+
+        // Queries between video pixels and geographic positions.
+        const geoQuery = new GeoQuery(
+            terrain.root,
+            player.width(),
+            player.height()
+        );
+        geoQuery.setMetadata(metadata);
+
+        // Pose refinement from tie points in the current frame, seeded
+        // with the track's metadata and the current offsets.
+        const refinementPanel = new RefinementPanel({
+            solve: (tiePoints, options) => {
+                try {
+                    return refinePose(
+                        trackMetadata,
+                        tiePoints,
+                        player.width(),
+                        player.height(),
+                        calibrationPanel.offsets(),
+                        options
+                    );
+                } catch (e) {
+                    console.warn(`${e}`);
+                    return undefined;
+                }
+            },
+            acceptFrame: (result) => {
+                frameCorrections.set(frameIndex(), result.metadata);
+                saveFrameCorrections(mission, frameCorrections);
+                poseChanged = true;
+            },
+            acceptSequence: (result) => {
+                if (frameCorrections.delete(frameIndex())) {
+                    saveFrameCorrections(mission, frameCorrections);
+                }
+                calibrationPanel.setOffsets(result.offsets);
+            },
         });
+        refinementPanel.setVisible(false);
+
+        // Mission vector layers, rebuilt where tiles are shown or hidden to
+        // follow the terrain. The rebuilds wait for the tiles to settle.
+        const layers = await loadMissionLayers(manifest, report);
+        layers.forEach((layer) => {
+            layer.build(terrain.root);
+            scene.add(layer.root());
+        });
+        const changedExtents: Three.Box3[] = [];
+        var lastTerrainChange = 0.0;
+        var tileCount = -1;
 
-        // Load initial image (not checked in).
-        const image = await fetchImage(imageUrl(0));
         const videoOverlay = new VideoOverlay();
-        videoOverlay.updateTexture(image);
+        videoOverlay.updateTexture(player.image());
+        videoOverlay.setCalibration(metadata);
+        videoOverlay.setUndistortion(true);
         videoOverlay.mesh().visible = true;
         scene.add(videoOverlay.mesh());
 
+        // Projection of the video onto the terrain, and a free camera to
+        // inspect it together with the sensor's frustum.
+        const projector = new VideoProjector();
+        const inspectionCamera = new Three.PerspectiveCamera(
+            45.0,
+            window.innerWidth / window.innerHeight,
+            1.0,
+            100000.0
+        );
+        var inspectionControls: OrbitControls | undefined = undefined;
+        const sensorHelper = new Three.CameraHelper(camera);
+        sensorHelper.visible = false;
+        scene.add(sensorHelper);
+
+        // The camera currently viewing the scene.
+        const viewCamera = (): Three.PerspectiveCamera =>
+            inspectionControls ? inspectionCamera : camera;
+
         // Tool: Add the statistics widget to the DOM.
         const stats = Stats();
         document.body.appendChild(stats.dom);
 
+        // Visibility analysis, from the sensor or from an observer picked
+        // on the terrain.
+        const viewshed = new Viewshed();
+        var showViewshed = false;
+        var viewshedChanged = true;
+        var viewshedTileCount = 0;
+        const lineOfSightOverlay = new LineOfSightOverlay();
+        scene.add(lineOfSightOverlay.root());
+        var sightMode = false;
+        var sightObserver: Three.Vector3 | undefined = undefined;
+
+        // Measuring on the terrain.
+        const measurementTool = new MeasurementTool();
+        scene.add(measurementTool.root());
+
+        // Annotations, saved per mission as they are changed.
+        const annotationLayer: AnnotationLayer = new AnnotationLayer(
+            () => saveAnnotations(mission, annotationLayer.toGeoJson()),
+            report
+        );
+        const savedAnnotations = loadAnnotations(mission);
+        if (savedAnnotations) {
+            annotationLayer.addGeoJson(savedAnnotations);
+        }
+        scene.add(annotationLayer.root());
+        const annotationPanel = new AnnotationPanel(annotationLayer);
+        annotationPanel.setVisible(false);
+
         // Callback to track the mouse position as NDC.
         const mousePos = new Three.Vector2();
         window.onmousemove = (event: MouseEvent) => {
             // Calculate NDC coordinates for the drawing area.
-            const drawingArea = calcDrawingArea(camera.aspect);
+            const drawingArea = calcDrawingArea(viewCamera().aspect);
             const u =
                 event.clientX / drawingArea[2] -
                 drawingArea[0] / drawingArea[2];
@@ -89,17 +344,89 @@ async function simplestTerrainDemo() {
 
             mousePos.x = u * 2 - 1;
             mousePos.y = -v * 2 + 1;
+
+            if (swiping) {
+                videoOverlay.setSwipe((mousePos.x + 1.0) / 2.0);
+            }
         };
 
         var mouseClicked = false;
+        var measureClicked = false;
+        var tieClicked = false;
+        var sightClicked = false;
+        var annotateClicked = false;
+        var swiping = false;
         window.onmousedown = (event: MouseEvent) => {
+            // Clicks in the panels are not for us.
+            if (event.target != renderer.domElement) {
+                return;
+            }
+
             if (event.button == 1) {
                 mouseClicked = true;
+            } else if (event.button == 0 && measurementTool.mode()) {
+                measureClicked = true;
+            } else if (event.button == 0 && sightMode) {
+                sightClicked = true;
+            } else if (event.button == 0 && refinementPanel.visible()) {
+                tieClicked = true;
+            } else if (event.button == 0 && annotationPanel.visible()) {
+                annotateClicked = true;
+            } else if (
+                event.button == 0 &&
+                videoOverlay.compositing() == 'swipe' &&
+                !inspectionControls
+            ) {
+                // Drag the split line.
+                swiping = true;
+                videoOverlay.setSwipe((mousePos.x + 1.0) / 2.0);
             }
         };
 
+        window.onmouseup = () => {
+            swiping = false;
+        };
+
         // Callback to react on resize events.
         window.onresize = () => {
+            inspectionCamera.aspect = window.innerWidth / window.innerHeight;
+            inspectionCamera.updateProjectionMatrix();
+            setDrawingArea(renderer, viewCamera().aspect);
+        };
+
+        // Start inspecting from above and behind the sensor, looking at the
+        // sensor's line of sight. The orbit is around the local vertical.
+        const startInspection = () => {
+            const up = camera.position.clone().normalize();
+            const forward = camera.getWorldDirection(new Three.Vector3());
+            inspectionCamera.position
+                .copy(camera.position)
+                .addScaledVector(up, 200.0)
+                .addScaledVector(forward, -300.0);
+            inspectionCamera.up.copy(up);
+            inspectionCamera.aspect = window.innerWidth / window.innerHeight;
+            inspectionCamera.updateProjectionMatrix();
+
+            inspectionControls = new OrbitControls(
+                inspectionCamera,
+                renderer.domElement
+            );
+            inspectionControls.target
+                .copy(camera.position)
+                .addScaledVector(forward, 500.0);
+            inspectionControls.update();
+
+            sensorHelper.visible = true;
+            setDrawingArea(renderer, inspectionCamera.aspect);
+        };
+
+        const stopInspection = () => {
+            if (inspectionControls) {
+                inspectionControls.dispose();
+                inspectionControls = undefined;
+            }
+
+            sensorHelper.visible = false;
             setDrawingArea(renderer, camera.aspect);
         };
 
@@ -116,110 +443,434 @@ async function simplestTerrainDemo() {
 
         var showNormal = false;
         var showCoord = false;
-        var currentItem = 0;
-        const minItem = 0;
-        const maxItem = 8;
-        const elfs: Three.Object3D[] = [];
+        var showOverlay = true;
+        var showProjection = false;
+        var gpuPicking = false;
         window.onkeydown = async (event: KeyboardEvent) => {
-            if (event.code == 'KeyN') {
+            // Typing in the calibration panel is not for us.
+            if (event.target instanceof HTMLInputElement) {
+                return;
+            }
+
+            if (event.shiftKey && poseNudges[event.code]) {
+                poseNudges[event.code].forEach(([key, step]) =>
+                    calibrationPanel.nudge(key, step)
+                );
+            } else if (event.shiftKey && event.code == 'KeyS') {
+                calibrationPanel.save();
+            } else if (event.code == 'KeyC') {
+                calibrationPanel.setVisible(!calibrationPanel.visible());
+            } else if (event.code == 'KeyA') {
+                annotationPanel.setVisible(!annotationPanel.visible());
+            } else if (event.code == 'KeyE') {
+                exportPanel.setVisible(!exportPanel.visible());
+            } else if (event.code == 'KeyR') {
+                refinementPanel.setVisible(!refinementPanel.visible());
+            } else if (event.code == 'KeyD') {
+                diagnostics.setVisible(!diagnostics.visible());
+            } else if (event.code == 'KeyN') {
                 showNormal = !showNormal;
             } else if (event.code == 'KeyT') {
                 showCoord = !showCoord;
             } else if (event.code == 'KeyO') {
-                videoOverlay.mesh().visible = !videoOverlay.mesh().visible;
-            } else if (event.code == 'Escape') {
-                elfs.forEach((elf) => {
-                    elf.removeFromParent();
+                showOverlay = !showOverlay;
+            } else if (event.code == 'KeyB') {
+                // Cycle the compositing of the video with the terrain.
+                const mode = compositingModes.indexOf(
+                    videoOverlay.compositing()
+                );
+                videoOverlay.setCompositing(
+                    compositingModes[(mode + 1) % compositingModes.length]
+                );
+            } else if (event.code == 'BracketLeft') {
+                videoOverlay.setOpacity(videoOverlay.opacity() - 0.1);
+            } else if (event.code == 'BracketRight') {
+                videoOverlay.setOpacity(videoOverlay.opacity() + 0.1);
+            } else if (event.code == 'KeyU') {
+                videoOverlay.setUndistortion(!videoOverlay.undistortion());
+            } else if (event.code == 'KeyV') {
+                const visible = layers.length > 0 && !layers[0].root().visible;
+                layers.forEach((layer) => {
+                    layer.root().visible = visible;
                 });
-                elfs.length = 0;
+            } else if (event.code == 'KeyM') {
+                // Cycle between line, polygon and no measuring.
+                const mode = measurementTool.mode();
+                measurementTool.setMode(
+                    mode === undefined
+                        ? 'line'
+                        : mode == 'line'
+                          ? 'polygon'
+                          : undefined
+                );
+            } else if (event.code == 'Enter') {
+                measurementTool.finish();
+            } else if (event.code == 'Backspace') {
+                measurementTool.undo();
+            } else if (event.code == 'Delete') {
+                measurementTool.clear();
+            } else if (event.code == 'KeyX') {
+                downloadBlob(
+                    new Blob([JSON.stringify(measurementTool.toGeoJson())], {
+                        type: 'application/geo+json',
+                    }),
+                    'measurements.geojson'
+                );
+            } else if (event.code == 'KeyG') {
+                gpuPicking = !gpuPicking;
+            } else if (event.code == 'KeyP') {
+                showProjection = !showProjection;
+            } else if (event.code == 'KeyF') {
+                showViewshed = !showViewshed;
+                viewshedChanged = true;
+            } else if (event.code == 'KeyL') {
+                // Leaving line of sight mode forgets the observer.
+                sightMode = !sightMode;
+                if (!sightMode) {
+                    sightObserver = undefined;
+                    lineOfSightOverlay.clear();
+                    viewshedChanged = true;
+                }
+            } else if (event.code == 'KeyI') {
+                if (inspectionControls) {
+                    stopInspection();
+                } else {
+                    startInspection();
+                }
+            } else if (event.code == 'Escape') {
+                annotationLayer.select(undefined);
+                annotationPanel.updateSelection();
             } else if (event.code == 'KeyW') {
-                terrain.forEach((tile) => {
-                    tile.children.forEach((child) => {
-                        if (child instanceof Three.Mesh) {
-                            const mat = (child as Three.Mesh)
-                                .material as Three.MeshBasicMaterial;
+                terrain.root.traverse((child) => {
+                    if (child instanceof Three.Mesh) {
+                        const materials = (child as Three.Mesh).material;
+                        (Array.isArray(materials)
+                            ? materials
+                            : [materials]
+                        ).forEach((material) => {
+                            const mat = material as Three.MeshBasicMaterial;
                             mat.wireframe = !mat.wireframe;
                             mat.needsUpdate = true;
-                        }
-                    });
+                        });
+                    }
                 });
-            } else if (
-                event.code == 'ArrowLeft' ||
-                event.code == 'ArrowRight'
-            ) {
-                currentItem =
-                    event.code == 'ArrowLeft'
-                        ? Math.max(currentItem - 1, minItem)
-                        : Math.min(currentItem + 1, maxItem);
-                const metadata = await fetchJSON<Metadata>(
-                    metadataUrl(currentItem)
-                );
-                setCameraMetadata(camera, metadata);
-                setDrawingArea(renderer, camera.aspect);
-                const image = await fetchImage(imageUrl(currentItem));
-                videoOverlay.updateTexture(image);
-                spotLight.position.set(
-                    camera.position.x,
-                    camera.position.y,
-                    camera.position.z
-                );
+            } else if (event.code == 'Space') {
+                await player.togglePlay();
+            } else if (event.code == 'ArrowLeft') {
+                player.step(-1);
+            } else if (event.code == 'ArrowRight') {
+                player.step(1);
+            } else if (event.code == 'PageUp') {
+                player.seek(player.frameTime() - 10.0);
+            } else if (event.code == 'PageDown') {
+                player.seek(player.frameTime() + 10.0);
+            } else if (event.code == 'Home') {
+                player.seek(0.0);
             }
         };
 
-        // Setup stuff for raycasting the scene.
+        // Setup stuff for picking the terrain, by raycasting or from the
+        // GPU's depth.
         const raycaster = new Three.Raycaster();
+        const depthPicker = new DepthPicker();
         const normalArrow = new Three.ArrowHelper();
         normalArrow.visible = false;
         scene.add(normalArrow);
 
+        // Pixel sizes of the line overlays, for the drawing area or an
+        // export.
+        const setOverlayResolution = (width: number, height: number) => {
+            layers.forEach((layer) => layer.setResolution(width, height));
+            measurementTool.setResolution(width, height);
+            lineOfSightOverlay.setResolution(width, height);
+        };
+
+        // Render the scene and the analyses drawn on top of it, to the
+        // drawing area or to the current render target.
+        const renderView = (view: Three.PerspectiveCamera) => {
+            // The overlay is a screen space quad for the sensor's view only.
+            videoOverlay.mesh().visible = showOverlay && view === camera;
+            if (videoOverlay.mesh().visible) {
+                videoOverlay.update(renderer, scene, terrain.root, camera);
+            }
+            renderer.render(scene, view);
+
+            if (showProjection) {
+                projector.update(
+                    renderer,
+                    terrain.root,
+                    camera,
+                    videoOverlay.texture(),
+                    metadata
+                );
+                projector.render(renderer, terrain.root, view);
+            }
+
+            if (showViewshed) {
+                viewshed.render(renderer, terrain.root, view);
+            }
+        };
+
+        // Export of the sensor's view at the source resolution, with the
+        // metadata it was rendered with, for single frames and for clips.
+        const drawingSize = new Three.Vector4();
+        const frameExporter = new FrameExporter();
+        const captureFrame = (): [HTMLCanvasElement, FrameSidecar] => {
+            const width = player.width();
+            const height = player.height();
+            setOverlayResolution(width, height);
+            const canvas = frameExporter.render(renderer, width, height, () =>
+                renderView(camera)
+            );
+            setOverlayResolution(drawingSize.z, drawingSize.w);
+
+            return [
+                canvas,
+                {
+                    time: frameTime,
+                    width: width,
+                    height: height,
+                    metadata: metadata,
+                },
+            ];
+        };
+        var clipRecorder: ClipRecorder | undefined = undefined;
+        const exportPanel = new ExportPanel({
+            exportFrame: () => {
+                const [canvas, sidecar] = captureFrame();
+                saveFrame(
+                    canvas,
+                    sidecar,
+                    `frame-${sidecar.time.toFixed(3)}s`
+                ).catch((e) => diagnostics.failed('Frame export', e));
+            },
+            exportClip: (options) => {
+                if (clipRecorder) {
+                    clipRecorder.cancel();
+                }
+                try {
+                    clipRecorder = new ClipRecorder(
+                        player,
+                        options,
+                        captureFrame
+                    );
+                } catch (e) {
+                    diagnostics.failed('Clip export', e);
+                }
+            },
+            cancelClip: () => {
+                if (clipRecorder) {
+                    clipRecorder.cancel();
+                }
+            },
+            frameTime: () => player.frameTime(),
+        });
+        exportPanel.setVisible(false);
+
         // The render loop.
         renderer.setAnimationLoop(() => {
+            // Let the camera follow the presented video frame, and the
+            // corrections of its metadata.
+            const frameChanged = player.frameTime() != frameTime;
+            if (frameChanged || poseChanged) {
+                frameTime = player.frameTime();
+                poseChanged = false;
+                if (frameChanged) {
+                    // Tie points are for a single frame.
+                    refinementPanel.clear();
+                    videoOverlay.updateTexture(player.image());
+                }
+                const interpolated = frameMetadata();
+                if (interpolated.status != trackStatus) {
+                    trackStatus = interpolated.status;
+                    if (trackStatus != 'inside') {
+                        diagnostics.warn(
+                            'Metadata track status',
+                            `'${trackStatus}' at ${frameTime}s`
+                        );
+                    } else {
+                        diagnostics.loaded('Metadata track status', 'inside');
+                    }
+                }
+
+                const aspect = camera.aspect;
+                // Without metadata for the frame, e.g. a frame without its
+                // own metadata and no track, the previous metadata is kept.
+                if (interpolated.metadata) {
+                    trackMetadata = interpolated.metadata;
+                }
+                metadata = correctedMetadata();
+                setCameraMetadata(camera, metadata);
+                geoQuery.setMetadata(metadata);
+                videoOverlay.setCalibration(metadata);
+                sensorHelper.update();
+                if (!sightObserver) {
+                    // The viewshed from the sensor follows it.
+                    viewshedChanged = true;
+                }
+                if (camera.aspect != aspect && !inspectionControls) {
+                    setDrawingArea(renderer, camera.aspect);
+                }
+                spotLight.position.set(
+                    camera.position.x,
+                    camera.position.y,
+                    camera.position.z
+                );
+            }
+
+            // Adjust the video, with new levels for every frame if they
+            // are automatic.
+            const enhancement = calibrationPanel.enhancement();
+            if (
+                enhancementChanged ||
+                (frameChanged && enhancement.autoLevels)
+            ) {
+                const levels: [number, number] = enhancement.autoLevels
+                    ? autoLevels.compute(player.image())
+                    : [enhancement.black, enhancement.white];
+                videoOverlay.setEnhancement(enhancement, levels);
+                projector.setEnhancement(enhancement, levels);
+                enhancementChanged = false;
+            }
+
             const coordDisplay = document.getElementById(
                 'coordinates'
             ) as HTMLDivElement;
             coordDisplay.innerText = '';
             normalArrow.visible = false;
 
+            // Clicking an annotation selects it, unless the selected one is
+            // to be moved to the click.
+            const annotateMove = annotateClicked && annotationPanel.moving();
+            if (annotateClicked && !annotateMove) {
+                annotationLayer.select(
+                    annotationLayer.pickAt(mousePos, viewCamera())
+                );
+                annotationPanel.updateSelection();
+            }
+
+            // A tie point is an image pixel in the sensor's view, followed
+            // by its ground position picked in any view.
+            const tieGround = tieClicked && refinementPanel.hasPendingPixel();
             if (
-                (mouseClicked || showCoord || showNormal) &&
+                tieClicked &&
+                !tieGround &&
+                !inspectionControls &&
                 withinDrawingNDC(mousePos)
             ) {
-                raycaster.setFromCamera(mousePos, camera);
-                const intersects = raycaster.intersectObjects(scene.children);
-                if (intersects.length > 0 && intersects[0].face) {
-                    const point = intersects[0].point;
+                // The pixel in the original image, through the overlay's
+                // undistortion when it is shown undistorted.
+                const u = (mousePos.x + 1.0) / 2.0;
+                const v = (mousePos.y + 1.0) / 2.0;
+                const [x, y] = videoOverlay.undistortion()
+                    ? undistortedUv(metadata, u, v)
+                    : [u, v];
+                refinementPanel.addPixel(
+                    x * player.width(),
+                    (1.0 - y) * player.height()
+                );
+            }
 
-                    if (mouseClicked) {
-                        const model = elf.scene.clone();
-                        model.scale.set(5, 5, 5);
-                        const pos = point
-                            .clone()
-                            .addScaledVector(intersects[0].face.normal, 8);
-                        model.position.set(point.x, point.y, point.z);
+            if (
+                (mouseClicked ||
+                    measureClicked ||
+                    sightClicked ||
+                    tieGround ||
+                    annotateMove ||
+                    showCoord ||
+                    showNormal) &&
+                withinDrawingNDC(mousePos)
+            ) {
+                renderer.getCurrentViewport(drawingSize);
+                const pick = gpuPicking
+                    ? depthPicker.pick(
+                          renderer,
+                          mousePos,
+                          viewCamera(),
+                          terrain.root,
+                          drawingSize.w
+                      )
+                    : raycastTerrain(
+                          raycaster,
+                          mousePos,
+                          viewCamera(),
+                          terrain.root
+                      );
+                if (pick) {
+                    // Picks are in world space, i.e. true ECEF also for
+                    // tiles with a local origin.
+                    const point = pick.point;
+
+                    if (measureClicked) {
+                        measurementTool.addPoint(point);
+                    }
+
+                    if (tieGround) {
+                        refinementPanel.addGround(point);
+                    }
 
-                        // Ouch ...
-                        const atPosition = point
+                    // The first pick is the observer, standing on the
+                    // terrain, and the following picks are targets.
+                    if (sightClicked && !sightObserver) {
+                        sightObserver = point
                             .clone()
-                            .addScaledVector(intersects[0].face.normal, 1000);
+                            .addScaledVector(
+                                point.clone().normalize(),
+                                observerHeight
+                            );
+                        viewshedChanged = true;
+                    } else if (sightClicked && sightObserver) {
+                        lineOfSightOverlay.set(
+                            sightObserver,
+                            point,
+                            lineOfSight(
+                                raycaster,
+                                terrain.root,
+                                sightObserver,
+                                point
+                            )
+                        );
+                    }
 
-                        model.lookAt(atPosition);
+                    // Middle clicks add annotations.
+                    if (mouseClicked) {
+                        annotationLayer.select(
+                            annotationLayer.add(
+                                point,
+                                annotationPanel.newMarker()
+                            )
+                        );
+                        annotationPanel.updateSelection();
+                    }
 
-                        model.renderOrder = 2;
-                        elfs.push(model);
-                        scene.add(model);
+                    if (annotateMove) {
+                        const selected = annotationLayer.selected();
+                        if (selected) {
+                            annotationLayer.move(selected, point);
+                        }
+                        annotationPanel.setMoving(false);
                     }
 
                     if (showCoord) {
-                        const coordText = `x: ${point.x} y: ${point.y} z: ${point.z} dist: ${intersects[0].distance}m`;
-                        coordDisplay.innerText = coordText;
+                        const geo = ecefToGeodetic(point);
+                        const pixel = geoQuery.ecefToPixel(point);
+                        const lat = geo.latitude.toFixed(7);
+                        const lon = geo.longitude.toFixed(7);
+                        const h = geo.height.toFixed(1);
+                        const range = pixel.slantRange.toFixed(1);
+                        const px =
+                            pixel.x !== undefined && pixel.y !== undefined
+                                ? `${pixel.x.toFixed(1)}, ${pixel.y.toFixed(1)}`
+                                : '-';
+                        coordDisplay.innerText = `lat: ${lat} lon: ${lon} h: ${h}m slant range: ${range}m pixel: ${px} (${pixel.status})`;
                     }
 
                     if (showNormal) {
                         normalArrow.position.set(point.x, point.y, point.z);
-                        normalArrow.setDirection(intersects[0].face.normal);
+                        normalArrow.setDirection(pick.normal);
                         const len =
-                            Math.tan(degToRad(camera.fov) / 2.0) *
-                            intersects[0].distance *
+                            Math.tan(degToRad(viewCamera().fov) / 2.0) *
+                            pick.distance *
                             0.5;
                         normalArrow.setLength(len, len * 0.35, len * 0.15);
                         normalArrow.visible = true;
@@ -227,25 +878,113 @@ async function simplestTerrainDemo() {
                 }
             }
 
-            // Rotate all elfs.
-            elfs.forEach((elf) => {
-                elf.rotateZ(0.05);
+            // Stream terrain tiles for the current view.
+            renderer.getCurrentViewport(drawingSize);
+            terrain.tileManagers.forEach((tileManager) =>
+                tileManager.update(viewCamera(), drawingSize.w)
+            );
+            const loadedTiles = loadedTileCount(terrain);
+            if (loadedTiles != tileCount && terrain.tileManagers.length > 0) {
+                diagnostics.loaded('Terrain tiles', `${loadedTiles} loaded`);
+            }
+            tileCount = loadedTiles;
+
+            const now = performance.now();
+            terrain.tileManagers.forEach((tileManager) => {
+                const extents = tileManager.takeChangedExtents();
+                if (extents.length > 0) {
+                    extents.forEach((extent) => changedExtents.push(extent));
+                    lastTerrainChange = now;
+                }
             });
+            if (
+                changedExtents.length > 0 &&
+                now - lastTerrainChange > layerRebuildDelay
+            ) {
+                layers.forEach((layer) => layer.rebuild(changedExtents));
+                changedExtents.length = 0;
+            }
+            setOverlayResolution(drawingSize.z, drawingSize.w);
+
+            annotationLayer.update();
 
             // Always reset mouseClick.
             mouseClicked = false;
+            measureClicked = false;
+            tieClicked = false;
+            sightClicked = false;
+            annotateClicked = false;
 
-            renderer.render(scene, camera);
+            // The distance map of the viewshed is rendered again for a new
+            // observer, or when more terrain is loaded.
+            if (
+                showViewshed &&
+                (viewshedChanged || tileCount != viewshedTileCount)
+            ) {
+                viewshed.update(
+                    renderer,
+                    terrain.root,
+                    sightObserver ? sightObserver : camera.position,
+                    viewshedRange
+                );
+                viewshedChanged = false;
+                viewshedTileCount = tileCount;
+            }
+
+            // Render the next frame of a clip, once it is presented.
+            if (clipRecorder) {
+                clipRecorder.update(frameTime);
+                exportPanel.setStatus(clipRecorder.status());
+                if (clipRecorder.done()) {
+                    clipRecorder = undefined;
+                }
+            }
+
+            renderView(viewCamera());
 
             stats.update();
         });
     } catch (e) {
-        document.body.append(
-            document.createTextNode('Oops. Things just broke')
-        );
+        diagnostics.failed('Mission', e);
     }
 }
 
+/**
+ * Get the mission manifest: the one given by the manifest URL parameter,
+ * else one just dropped on the page, else the demo (the video example
+ * with ?demo=video). A dropped manifest is only used for the reload
+ * following the drop.
+ */
+async function missionManifest(): Promise<MissionManifest> {
+    const dropped = window.sessionStorage.getItem(droppedManifestKey);
+    window.sessionStorage.removeItem(droppedManifestKey);
+
+    const params = new URLSearchParams(window.location.search);
+    const url = params.get('manifest');
+    if (url !== null) {
+        return fetchManifest(url);
+    }
+
+    if (dropped !== null) {
+        return parseManifest(JSON.parse(dropped), window.location.href);
+    }
+
+    return parseManifest(
+        params.get('demo') == 'video' ? demoVideoManifest : demoManifest,
+        window.location.href
+    );
+}
+
+/**
+ * Count the loaded tiles of the streamed terrain.
+ */
+function loadedTileCount(terrain: MissionTerrain): number {
+    return terrain.tileManagers.reduce(
+        (count, tileManager) => count + tileManager.loadedTiles().length,
+        0
+    );
+}
+
 /**
  * A real simple demo app just to see that things are working.
  */
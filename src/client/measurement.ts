@@ -0,0 +1,512 @@
+import * as Three from 'three';
+import { Line2 } from 'three/examples/jsm/lines/Line2';
+import { LineGeometry } from 'three/examples/jsm/lines/LineGeometry';
+import { LineMaterial } from 'three/examples/jsm/lines/LineMaterial';
+import { degToRad, radToDeg } from 'three/src/math/MathUtils';
+
+import { geodeticToEcef, nedToEcefRotation } from './app_util';
+import {
+    GeoJsonFeature,
+    GeoJsonFeatureCollection,
+    GeoJsonGeometry,
+} from './geojson';
+import {
+    createLabel,
+    disposeOverlay,
+    relativePositions,
+} from './geojson_layer';
+import { ecefToGeodetic } from './geo_query';
+
+/**
+ * The kind of measurement: an open polyline or a closed polygon.
+ */
+export type MeasurementMode = 'line' | 'polygon';
+
+/**
+ * The results of a measurement. Distances are in meters, the area in
+ * square meters and the bearing in degrees clockwise from north.
+ */
+export interface MeasurementResult {
+    /** Geodesic distance along the WGS84 ellipsoid. */
+    groundDistance: number;
+    /** Straight line distance between the 3D points. */
+    slantDistance: number;
+    /** Height of the last point above the first. */
+    heightDifference: number;
+    /** Bearing from the first point to the last. */
+    bearing: number;
+    /** Horizontally enclosed area, for polygons. */
+    area?: number;
+}
+
+/**
+ * The solution of the inverse geodesic problem.
+ */
+export interface Geodesic {
+    /** Distance in meters. */
+    distance: number;
+    /** Azimuth at the first point, in degrees clockwise from north. */
+    azimuth: number;
+}
+
+/**
+ * Solve the inverse geodesic problem on the WGS84 ellipsoid, using
+ * Vincenty's formulae. For nearly antipodal points, where the iteration
+ * may not converge, the last iteration is used.
+ * @param latitude1 Latitude of the first point in degrees
+ * @param longitude1 Longitude of the first point in degrees
+ * @param latitude2 Latitude of the second point in degrees
+ * @param longitude2 Longitude of the second point in degrees
+ * @returns The distance and azimuth
+ */
+export function geodesicInverse(
+    latitude1: number,
+    longitude1: number,
+    latitude2: number,
+    longitude2: number
+): Geodesic {
+    const a = 6378137.0;
+    const f = 1.0 / 298.257223563;
+    const b = a * (1.0 - f);
+
+    const L = degToRad(longitude2 - longitude1);
+    const U1 = Math.atan((1.0 - f) * Math.tan(degToRad(latitude1)));
+    const U2 = Math.atan((1.0 - f) * Math.tan(degToRad(latitude2)));
+    const sinU1 = Math.sin(U1);
+    const cosU1 = Math.cos(U1);
+    const sinU2 = Math.sin(U2);
+    const cosU2 = Math.cos(U2);
+
+    let lambda = L;
+    let sinLambda = 0.0;
+    let cosLambda = 0.0;
+    let sinSigma = 0.0;
+    let cosSigma = 0.0;
+    let sigma = 0.0;
+    let cos2Alpha = 0.0;
+    let cos2SigmaM = 0.0;
+    for (let i = 0; i < 100; ++i) {
+        sinLambda = Math.sin(lambda);
+        cosLambda = Math.cos(lambda);
+        sinSigma = Math.sqrt(
+            (cosU2 * sinLambda) ** 2 +
+                (cosU1 * sinU2 - sinU1 * cosU2 * cosLambda) ** 2
+        );
+        if (sinSigma == 0.0) {
+            // Coincident points.
+            return { distance: 0.0, azimuth: 0.0 };
+        }
+
+        cosSigma = sinU1 * sinU2 + cosU1 * cosU2 * cosLambda;
+        sigma = Math.atan2(sinSigma, cosSigma);
+        const sinAlpha = (cosU1 * cosU2 * sinLambda) / sinSigma;
+        cos2Alpha = 1.0 - sinAlpha * sinAlpha;
+
+        // On the equator cos2Alpha is zero.
+        cos2SigmaM =
+            cos2Alpha != 0.0
+                ? cosSigma - (2.0 * sinU1 * sinU2) / cos2Alpha
+                : 0.0;
+        const C = (f / 16.0) * cos2Alpha * (4.0 + f * (4.0 - 3.0 * cos2Alpha));
+
+        const previous = lambda;
+        lambda =
+            L +
+            (1.0 - C) *
+                f *
+                sinAlpha *
+                (sigma +
+                    C *
+                        sinSigma *
+                        (cos2SigmaM +
+                            C * cosSigma * (-1.0 + 2.0 * cos2SigmaM ** 2)));
+        if (Math.abs(lambda - previous) < 1e-12) {
+            break;
+        }
+    }
+
+    const u2 = (cos2Alpha * (a * a - b * b)) / (b * b);
+    const A =
+        1.0 +
+        (u2 / 16384.0) * (4096.0 + u2 * (-768.0 + u2 * (320.0 - 175.0 * u2)));
+    const B = (u2 / 1024.0) * (256.0 + u2 * (-128.0 + u2 * (74.0 - 47.0 * u2)));
+    const deltaSigma =
+        B *
+        sinSigma *
+        (cos2SigmaM +
+            (B / 4.0) *
+                (cosSigma * (-1.0 + 2.0 * cos2SigmaM ** 2) -
+                    (B / 6.0) *
+                        cos2SigmaM *
+                        (-3.0 + 4.0 * sinSigma ** 2) *
+                        (-3.0 + 4.0 * cos2SigmaM ** 2)));
+
+    const azimuth = Math.atan2(
+        cosU2 * sinLambda,
+        cosU1 * sinU2 - sinU1 * cosU2 * cosLambda
+    );
+
+    return {
+        distance: b * A * (sigma - deltaSigma),
+        azimuth: (radToDeg(azimuth) + 360.0) % 360.0,
+    };
+}
+
+/**
+ * A measurement of points on the terrain.
+ */
+export class Measurement {
+    /**
+     * Create a new, empty, measurement.
+     * @param mode The kind of measurement
+     */
+    public constructor(mode: MeasurementMode) {
+        this._mode = mode;
+    }
+
+    /**
+     * Get the kind of measurement.
+     * @returns The mode
+     */
+    public mode(): MeasurementMode {
+        return this._mode;
+    }
+
+    /**
+     * Get the measured points.
+     * @returns The ECEF points
+     */
+    public points(): Three.Vector3[] {
+        return this._points;
+    }
+
+    /**
+     * Add a point to the measurement.
+     * @param point The ECEF point
+     */
+    public addPoint(point: Three.Vector3): void {
+        this._points.push(point.clone());
+    }
+
+    /**
+     * Remove the last point of the measurement.
+     */
+    public removePoint(): void {
+        this._points.pop();
+    }
+
+    /**
+     * Calculate the results. A polygon's distances include the closing
+     * edge.
+     * @returns The results, or undefined with less than two points
+     */
+    public result(): MeasurementResult | undefined {
+        if (this._points.length < 2) {
+            return undefined;
+        }
+
+        const geodetic = this._points.map((point) => ecefToGeodetic(point));
+        const path = this.closed() ? [...geodetic, geodetic[0]] : geodetic;
+        const points = this.closed()
+            ? [...this._points, this._points[0]]
+            : this._points;
+
+        let groundDistance = 0.0;
+        let slantDistance = 0.0;
+        for (let i = 1; i < path.length; ++i) {
+            groundDistance += geodesicInverse(
+                path[i - 1].latitude,
+                path[i - 1].longitude,
+                path[i].latitude,
+                path[i].longitude
+            ).distance;
+            slantDistance += points[i - 1].distanceTo(points[i]);
+        }
+
+        const first = geodetic[0];
+        const last = geodetic[geodetic.length - 1];
+        const result: MeasurementResult = {
+            groundDistance: groundDistance,
+            slantDistance: slantDistance,
+            heightDifference: last.height - first.height,
+            bearing: geodesicInverse(
+                first.latitude,
+                first.longitude,
+                last.latitude,
+                last.longitude
+            ).azimuth,
+        };
+        if (this.closed()) {
+            result.area = horizontalArea(geodetic);
+        }
+
+        return result;
+    }
+
+    /**
+     * Get the measurement as a GeoJSON feature, with the results as
+     * properties. Positions are WGS84 with ellipsoid heights. A single
+     * point is a Point, as a line needs two, and without points there is
+     * no geometry.
+     * @returns The feature
+     */
+    public toGeoJson(): GeoJsonFeature {
+        return {
+            type: 'Feature',
+            geometry: this.geometry(),
+            properties: { measurement: this._mode, ...this.result() },
+        };
+    }
+
+    private geometry(): GeoJsonGeometry | null {
+        const coordinates = this._points.map((point) => {
+            const { latitude, longitude, height } = ecefToGeodetic(point);
+            return [longitude, latitude, height];
+        });
+
+        if (coordinates.length == 0) {
+            return null;
+        } else if (coordinates.length == 1) {
+            return { type: 'Point', coordinates: coordinates[0] };
+        } else if (this.closed()) {
+            return {
+                type: 'Polygon',
+                coordinates: [[...coordinates, coordinates[0]]],
+            };
+        }
+
+        return { type: 'LineString', coordinates: coordinates };
+    }
+
+    private closed(): boolean {
+        return this._mode == 'polygon' && this._points.length > 2;
+    }
+
+    private _mode: MeasurementMode;
+    private _points: Three.Vector3[] = [];
+}
+
+/**
+ * Interactive measuring. Points picked on the terrain are added to the
+ * current measurement, which is drawn with a label of its results. The
+ * overlays are not depth tested, to stay visible on top of the video.
+ */
+export class MeasurementTool {
+    /**
+     * Get the root of the measurement overlays.
+     * @returns The root
+     */
+    public root(): Three.Group {
+        return this._root;
+    }
+
+    /**
+     * Get the measuring mode.
+     * @returns The mode, undefined if not measuring
+     */
+    public mode(): MeasurementMode | undefined {
+        return this._mode;
+    }
+
+    /**
+     * Set the measuring mode. Any current measurement is finished.
+     * @param mode The mode, undefined to stop measuring
+     */
+    public setMode(mode: MeasurementMode | undefined): void {
+        this.finish();
+        this._mode = mode;
+    }
+
+    /**
+     * Add a point to the current measurement, starting a new one if
+     * needed.
+     * @param point The ECEF point
+     */
+    public addPoint(point: Three.Vector3): void {
+        if (!this._mode) {
+            return;
+        }
+
+        if (!this._current) {
+            this._current = new Measurement(this._mode);
+            this._measurements.push(this._current);
+        }
+        this._current.addPoint(point);
+        this.redraw(this._measurements.length - 1);
+    }
+
+    /**
+     * Remove the last point of the current measurement.
+     */
+    public undo(): void {
+        if (this._current) {
+            this._current.removePoint();
+            this.redraw(this._measurements.length - 1);
+        }
+    }
+
+    /**
+     * Finish the current measurement, the next point starts a new one.
+     */
+    public finish(): void {
+        if (this._current && this._current.points().length == 0) {
+            this._measurements.pop();
+        }
+        this._current = undefined;
+    }
+
+    /**
+     * Remove all measurements.
+     */
+    public clear(): void {
+        this._current = undefined;
+        this._measurements = [];
+        this._overlays.forEach((overlay) => disposeOverlay(overlay));
+        this._overlays = [];
+    }
+
+    /**
+     * Get all measurements.
+     * @returns The measurements
+     */
+    public measurements(): Measurement[] {
+        return this._measurements;
+    }
+
+    /**
+     * Get all measurements as GeoJSON.
+     * @returns The feature collection
+     */
+    public toGeoJson(): GeoJsonFeatureCollection {
+        return {
+            type: 'FeatureCollection',
+            features: this._measurements.map((m) => m.toGeoJson()),
+        };
+    }
+
+    /**
+     * Set the size of the drawing area, needed for the line widths.
+     * @param width Width in pixels
+     * @param height Height in pixels
+     */
+    public setResolution(width: number, height: number): void {
+        this._resolution.set(width, height);
+    }
+
+    private redraw(index: number): void {
+        if (this._overlays[index]) {
+            disposeOverlay(this._overlays[index]);
+        }
+
+        const measurement = this._measurements[index];
+        const overlay = new Three.Group();
+        const points = measurement.points();
+        if (points.length > 0) {
+            const closed = measurement.mode() == 'polygon' && points.length > 2;
+            const [origin, positions] = relativePositions(
+                closed ? [...points, points[0]] : points
+            );
+
+            const vertices = new Three.BufferGeometry();
+            vertices.setAttribute(
+                'position',
+                new Three.BufferAttribute(positions, 3)
+            );
+            const markers = new Three.Points(
+                vertices,
+                new Three.PointsMaterial({
+                    color: measurementColor,
+                    size: 8.0,
+                    sizeAttenuation: false,
+                    depthTest: false,
+                })
+            );
+            markers.position.copy(origin);
+            markers.renderOrder = 3;
+            overlay.add(markers);
+
+            if (points.length > 1) {
+                const geometry = new LineGeometry();
+                geometry.setPositions(Array.from(positions));
+                const material = new LineMaterial({
+                    color: measurementColor,
+                    linewidth: 2.0,
+                    depthTest: false,
+                });
+                material.resolution = this._resolution;
+
+                const line = new Line2(geometry, material);
+                line.position.copy(origin);
+                line.renderOrder = 3;
+                overlay.add(line);
+            }
+
+            const result = measurement.result();
+            if (result) {
+                const label = createLabel(formatResult(result), 0.04);
+                label.position.copy(points[points.length - 1]);
+                overlay.add(label);
+            }
+        }
+
+        this._overlays[index] = overlay;
+        this._root.add(overlay);
+    }
+
+    private _mode?: MeasurementMode;
+    private _current?: Measurement;
+    private _measurements: Measurement[] = [];
+    private _overlays: Three.Group[] = [];
+    private _root = new Three.Group();
+    private _resolution = new Three.Vector2(1.0, 1.0);
+}
+
+/**
+ * Format measurement results for a label.
+ * @param result The results
+ * @returns The text
+ */
+export function formatResult(result: MeasurementResult): string {
+    const parts = [
+        `ground ${result.groundDistance.toFixed(1)} m`,
+        `slant ${result.slantDistance.toFixed(1)} m`,
+        `dh ${result.heightDifference.toFixed(1)} m`,
+        `bearing ${result.bearing.toFixed(1)}°`,
+    ];
+    if (result.area !== undefined) {
+        parts.push(`area ${result.area.toFixed(0)} m²`);
+    }
+
+    return parts.join(' | ');
+}
+
+/**
+ * Calculate the area enclosed by a ring of geodetic points, projected on
+ * the tangent plane of the ellipsoid at the first point. The projection is
+ * accurate for areas of a few kilometers.
+ */
+function horizontalArea(
+    ring: { latitude: number; longitude: number }[]
+): number {
+    const ned = nedToEcefRotation(
+        degToRad(ring[0].latitude),
+        degToRad(ring[0].longitude)
+    );
+    const north = new Three.Vector3();
+    const east = new Three.Vector3();
+    ned.extractBasis(north, east, new Three.Vector3());
+
+    const points = ring.map((p) =>
+        new Three.Vector3().fromArray(
+            geodeticToEcef.forward([p.longitude, p.latitude, 0.0])
+        )
+    );
+    const plane = points.map((p) => {
+        const relative = p.clone().sub(points[0]);
+        return new Three.Vector2(relative.dot(east), relative.dot(north));
+    });
+
+    return Math.abs(Three.ShapeUtils.area(plane));
+}
+
+const measurementColor = 0x00ffff;
@@ -0,0 +1,324 @@
+import * as Three from 'three';
+import { degToRad, radToDeg } from 'three/src/math/MathUtils';
+
+import {
+    CameraMetadata,
+    Metadata,
+    decomposeYPR,
+    fetchJSON,
+    quaternionYPR,
+    toEcefMetadata,
+} from './app_util';
+import {
+    LoadReport,
+    validateMetadataSamples,
+    warnOnFailure,
+} from './validation';
+
+/**
+ * A metadata sample stamped with its presentation time.
+ */
+export interface MetadataSample {
+    /** Presentation time in seconds, on the same clock as the video. */
+    time: number;
+    metadata: CameraMetadata;
+}
+
+/**
+ * A sample with its metadata converted to ECEF.
+ */
+interface EcefSample {
+    time: number;
+    metadata: Metadata;
+}
+
+/**
+ * Options for interpolation between samples.
+ */
+export interface InterpolationOptions {
+    /** Linear or (Hermite) spline interpolation of the position. */
+    position: 'linear' | 'spline';
+    /** Samples further apart than this (seconds) are a gap in the track. */
+    maxGap: number;
+}
+
+/**
+ * Where a time was found relative to the samples in the track:
+ * - inside: between two samples, or exactly at a sample
+ * - before: before the first sample
+ * - after: after the last sample
+ * - gap: between two samples that are further apart than maxGap
+ * - empty: the track has no samples
+ */
+export type InterpolationStatus =
+    'inside' | 'before' | 'after' | 'gap' | 'empty';
+
+/**
+ * The result of an interpolation. Unless status is 'inside', metadata
+ * is the nearest sample (undefined for an empty track).
+ */
+export interface InterpolationResult {
+    status: InterpolationStatus;
+    metadata?: Metadata;
+}
+
+/**
+ * Default interpolation options.
+ */
+export const defaultInterpolationOptions: InterpolationOptions = {
+    position: 'linear',
+    maxGap: 2.0,
+};
+
+/**
+ * A time ordered track of camera metadata, used to look up the camera
+ * pose for a video frame's presentation time.
+ */
+export class MetadataTrack {
+    /**
+     * Create a track from samples. The samples do not have to be sorted.
+     * Geodetic metadata is converted to ECEF.
+     * @param samples The samples
+     * @param options Interpolation options
+     */
+    public constructor(
+        samples: MetadataSample[],
+        options: InterpolationOptions = defaultInterpolationOptions
+    ) {
+        this._samples = samples
+            .map((sample) => ({
+                time: sample.time,
+                metadata: toEcefMetadata(sample.metadata),
+            }))
+            .sort((a, b) => a.time - b.time);
+        this._options = options;
+    }
+
+    /**
+     * Get the number of samples in the track.
+     * @returns The number of samples
+     */
+    public length(): number {
+        return this._samples.length;
+    }
+
+    /**
+     * Get the time of the first sample.
+     * @returns The start time in seconds
+     */
+    public startTime(): number {
+        return this._samples.length > 0 ? this._samples[0].time : 0.0;
+    }
+
+    /**
+     * Get the time of the last sample.
+     * @returns The end time in seconds
+     */
+    public endTime(): number {
+        return this._samples.length > 0
+            ? this._samples[this._samples.length - 1].time
+            : 0.0;
+    }
+
+    /**
+     * Get the metadata that is valid at the given time, i.e. the latest
+     * sample not later than time. Times before the first sample give
+     * the first sample.
+     * @param time Presentation time in seconds
+     * @returns The metadata, or undefined if the track is empty
+     */
+    public sampleAt(time: number): Metadata | undefined {
+        if (this._samples.length == 0) {
+            return undefined;
+        }
+
+        const index = Math.max(this.indexAt(time), 0);
+        return this._samples[index].metadata;
+    }
+
+    /**
+     * Interpolate metadata for the given time. Position is interpolated
+     * linearly or with a spline, orientation using quaternion slerp (so
+     * yaw wrap-around at +/-180 degrees is handled) and field of view
+     * linearly. Other fields are taken from the earlier sample.
+     * @param time Presentation time in seconds
+     * @returns The interpolation result
+     */
+    public interpolate(time: number): InterpolationResult {
+        const count = this._samples.length;
+        if (count == 0) {
+            return { status: 'empty' };
+        }
+
+        const index = this.indexAt(time);
+        if (index < 0) {
+            return { status: 'before', metadata: this._samples[0].metadata };
+        } else if (index == count - 1) {
+            const last = this._samples[index];
+            return {
+                status: time == last.time ? 'inside' : 'after',
+                metadata: last.metadata,
+            };
+        }
+
+        const a = this._samples[index];
+        const b = this._samples[index + 1];
+        if (time == a.time) {
+            return { status: 'inside', metadata: a.metadata };
+        } else if (b.time - a.time > this._options.maxGap) {
+            const nearest = time - a.time < b.time - time ? a : b;
+            return { status: 'gap', metadata: nearest.metadata };
+        }
+
+        const t = (time - a.time) / (b.time - a.time);
+        const position =
+            this._options.position == 'spline'
+                ? this.splinePosition(index, t)
+                : positionOf(a.metadata).lerp(positionOf(b.metadata), t);
+
+        const [yaw, pitch, roll] = decomposeYPR(
+            orientationOf(a.metadata).slerp(orientationOf(b.metadata), t)
+        );
+
+        return {
+            status: 'inside',
+            metadata: {
+                ...a.metadata,
+                x: position.x,
+                y: position.y,
+                z: position.z,
+                yaw: radToDeg(yaw),
+                pitch: radToDeg(pitch),
+                roll: radToDeg(roll),
+                hfov: Three.MathUtils.lerp(a.metadata.hfov, b.metadata.hfov, t),
+                vfov: Three.MathUtils.lerp(a.metadata.vfov, b.metadata.vfov, t),
+            },
+        };
+    }
+
+    /**
+     * Find the index of the latest sample not later than time.
+     * @param time Presentation time in seconds
+     * @returns The index, or -1 if time is before the first sample
+     */
+    protected indexAt(time: number): number {
+        let low = 0;
+        let high = this._samples.length - 1;
+        let found = -1;
+        while (low <= high) {
+            const mid = Math.floor((low + high) / 2);
+            if (this._samples[mid].time <= time) {
+                found = mid;
+                low = mid + 1;
+            } else {
+                high = mid - 1;
+            }
+        }
+
+        return found;
+    }
+
+    /**
+     * Cubic Hermite interpolation of the position between sample index
+     * and index + 1, with finite difference tangents. Neighbours across
+     * a gap are not used for the tangents.
+     * @param index Index of the earlier sample
+     * @param t Normalized time between the samples
+     * @returns The position
+     */
+    private splinePosition(index: number, t: number): Three.Vector3 {
+        const a = this._samples[index];
+        const b = this._samples[index + 1];
+        const dt = b.time - a.time;
+
+        const before = this.neighbour(index, -1);
+        const after = this.neighbour(index + 1, 1);
+
+        // Tangents scaled to the normalized time between a and b.
+        const pa = positionOf(a.metadata);
+        const pb = positionOf(b.metadata);
+        const ma = positionOf(b.metadata)
+            .sub(positionOf(before.metadata))
+            .multiplyScalar(dt / (b.time - before.time));
+        const mb = positionOf(after.metadata)
+            .sub(positionOf(a.metadata))
+            .multiplyScalar(dt / (after.time - a.time));
+
+        const t2 = t * t;
+        const t3 = t2 * t;
+
+        return pa
+            .multiplyScalar(2 * t3 - 3 * t2 + 1)
+            .addScaledVector(ma, t3 - 2 * t2 + t)
+            .addScaledVector(pb, -2 * t3 + 3 * t2)
+            .addScaledVector(mb, t3 - t2);
+    }
+
+    /**
+     * Get the neighbour of a sample, or the sample itself if there is no
+     * neighbour within maxGap.
+     * @param index Index of the sample
+     * @param direction -1 for the previous, 1 for the next
+     * @returns The neighbour sample
+     */
+    private neighbour(index: number, direction: number): EcefSample {
+        const sample = this._samples[index];
+        const other = this._samples[index + direction];
+        if (
+            other === undefined ||
+            Math.abs(other.time - sample.time) > this._options.maxGap
+        ) {
+            return sample;
+        }
+
+        return other;
+    }
+
+    protected _samples: EcefSample[];
+    private _options: InterpolationOptions;
+}
+
+/**
+ * Async fetch of a JSON metadata track. The JSON document is an array
+ * of samples, each with a time and a metadata object in ECEF or geodetic
+ * form.
+ * @param url Track URL
+ * @param options Interpolation options
+ * @param report Receiver of invalid samples, which are skipped
+ * @returns Promise carrying the track
+ */
+export async function fetchMetadataTrack(
+    url: string,
+    options: InterpolationOptions = defaultInterpolationOptions,
+    report: LoadReport = warnOnFailure
+): Promise<MetadataTrack> {
+    return new MetadataTrack(await fetchMetadataSamples(url, report), options);
+}
+
+/**
+ * Async fetch of the samples of a JSON metadata track, as for
+ * fetchMetadataTrack.
+ * @param url Track URL
+ * @param report Receiver of invalid samples, which are skipped
+ * @returns Promise carrying the valid samples
+ */
+export async function fetchMetadataSamples(
+    url: string,
+    report: LoadReport = warnOnFailure
+): Promise<MetadataSample[]> {
+    const [samples, errors] = await fetchJSON(url, validateMetadataSamples);
+    errors.forEach((error) => report(`${url} ${error.path}`, error));
+    return samples;
+}
+
+function positionOf(metadata: Metadata): Three.Vector3 {
+    return new Three.Vector3(metadata.x, metadata.y, metadata.z);
+}
+
+function orientationOf(metadata: Metadata): Three.Quaternion {
+    return quaternionYPR(
+        degToRad(metadata.yaw),
+        degToRad(metadata.pitch),
+        degToRad(metadata.roll)
+    );
+}
@@ -0,0 +1,778 @@
+import * as Three from 'three';
+
+import {
+    CameraMetadata,
+    EcefConverter,
+    fetchJSON,
+    fetchVideo,
+} from './app_util';
+import { VerticalDatum, createCrsToEcefConverter, fetchGeoidGrid } from './crs';
+import {
+    GeoJsonLayer,
+    GeoJsonStyle,
+    defaultGeoJsonLayerOptions,
+    fetchGeoJsonLayer,
+} from './geojson_layer';
+import { FrameCache, defaultFrameCacheOptions } from './frame_cache';
+import { fetchImageSequencePlayer } from './image_sequence_player';
+import { LensCalibration } from './lens_calibration';
+import {
+    InterpolationOptions,
+    MetadataTrack,
+    defaultInterpolationOptions,
+    fetchMetadataSamples,
+} from './metadata_track';
+import {
+    ColladaTerrainSource,
+    DemTerrainSource,
+    GltfTerrainSource,
+    TerrainSource,
+    defaultDemOptions,
+    fetchTerrainTile,
+} from './terrain_source';
+import { TileManager, TilingScheme } from './terrain_tiles';
+import {
+    LoadError,
+    LoadReport,
+    ValidationError,
+    expectArray,
+    expectBoolean,
+    expectNumber,
+    expectObject,
+    expectString,
+    validateLensCalibration,
+    validateMetadata,
+    warnOnFailure,
+} from './validation';
+import { FramePlayer, VideoPlayer } from './video_player';
+
+/**
+ * The manifest version understood by this viewer.
+ */
+export const manifestVersion = 1;
+
+/**
+ * Vertical datum in a manifest, as VerticalDatum but with geoid grids
+ * given by URL.
+ */
+export type ManifestVerticalDatum =
+    | { type: 'ellipsoid' }
+    | { type: 'constant'; undulation: number }
+    | { type: 'geoid'; url: string };
+
+/**
+ * A video with a JSON metadata track (see fetchMetadataTrack).
+ */
+export interface VideoSourceSpec {
+    type: 'video';
+    url: string;
+    track: string;
+    frameRate?: number;
+    interpolation?: InterpolationOptions;
+}
+
+/**
+ * A sequence of still images with one metadata file each. The URLs are
+ * templates where {n} is the frame number, from first to first + count - 1.
+ */
+export interface FrameSequenceSpec {
+    type: 'frames';
+    images: string;
+    metadata: string;
+    count: number;
+    first?: number;
+    frameRate?: number;
+}
+
+/**
+ * The sensor data of a mission.
+ */
+export type SourceSpec = VideoSourceSpec | FrameSequenceSpec;
+
+/**
+ * Streamed terrain tiles.
+ */
+export interface TiledTerrainSpec {
+    type: 'tiles';
+    crs: string;
+    verticalDatum?: ManifestVerticalDatum;
+    tiling: TilingScheme;
+}
+
+/**
+ * Terrain from a fixed set of Collada or glTF models.
+ */
+export interface ModelTerrainSpec {
+    type: 'collada' | 'gltf';
+    crs: string;
+    verticalDatum?: ManifestVerticalDatum;
+    urls: string[];
+}
+
+/**
+ * Terrain from a gridded elevation model (see DemTerrainSource).
+ */
+export interface DemTerrainSpec {
+    type: 'dem';
+    crs: string;
+    verticalDatum?: ManifestVerticalDatum;
+    url: string;
+    stride?: number;
+    chunkSize?: number;
+}
+
+/**
+ * A terrain source of a mission.
+ */
+export type TerrainSpec = TiledTerrainSpec | ModelTerrainSpec | DemTerrainSpec;
+
+/**
+ * The sensor: the profile for its saved settings, and a lens calibration
+ * for metadata without one.
+ */
+export interface SensorSpec {
+    profile?: string;
+    calibration?: LensCalibration;
+}
+
+/**
+ * A GeoJSON overlay layer (see GeoJsonLayerOptions).
+ */
+export interface LayerSpec {
+    type: 'geojson';
+    url: string;
+    crs?: string;
+    verticalDatum?: ManifestVerticalDatum;
+    clampToTerrain?: boolean;
+    heightOffset?: number;
+    style?: Partial<GeoJsonStyle>;
+}
+
+/**
+ * A mission manifest, describing the data set shown by the viewer.
+ * Relative URLs are relative the manifest.
+ */
+export interface MissionManifest {
+    version: number;
+    name?: string;
+    source: SourceSpec;
+    terrain: TerrainSpec[];
+    sensor?: SensorSpec;
+    layers?: LayerSpec[];
+}
+
+/**
+ * The terrain of a mission, with the tile managers of streamed terrain
+ * that need to be updated for the view.
+ */
+export interface MissionTerrain {
+    root: Three.Group;
+    tileManagers: TileManager[];
+}
+
+/**
+ * The manifest of the demo data set (not checked in): its images with
+ * one metadata file each. The area of interest of its terrain tiles is
+ * the four level 13 tiles around the demo flight.
+ */
+export const demoManifest: MissionManifest = {
+    version: manifestVersion,
+    name: 'demo1',
+    source: {
+        type: 'frames',
+        images: './content/demo1/images/{n}.png',
+        metadata: './content/demo1/meta/{n}.json',
+        count: 9,
+    },
+    terrain: [
+        {
+            type: 'tiles',
+            crs: 'EPSG:32610',
+            verticalDatum: { type: 'constant', undulation: -22.0 },
+            tiling: {
+                urlTemplate:
+                    './content/demo1/tiles/{z}/{x}/{z}_{x}_{y}/{z}_{x}_{y}.dae',
+                originX: 0.0,
+                originY: 0.0,
+                level0Size: 1048576.0,
+                yDown: false,
+                minLevel: 13,
+                maxLevel: 16,
+                minHeight: -100.0,
+                maxHeight: 1000.0,
+                extent: [536960.0, 608896.0, 537216.0, 609152.0],
+            },
+        },
+    ],
+    sensor: { profile: 'demo1' },
+    layers: [{ type: 'geojson', url: './content/demo1/vectors.geojson' }],
+};
+
+/**
+ * Example of a video mission: the demo data set as a video with a metadata
+ * track, for data sets that have them (not checked in either).
+ */
+export const demoVideoManifest: MissionManifest = {
+    ...demoManifest,
+    name: 'demo1-video',
+    source: {
+        type: 'video',
+        url: './content/demo1/video.mp4',
+        track: './content/demo1/meta/track.json',
+        frameRate: 30.0,
+    },
+};
+
+/**
+ * Validate a manifest, and resolve its relative URLs.
+ * @param data The parsed JSON document
+ * @param baseUrl URL to resolve relative URLs against
+ * @returns The manifest
+ */
+export function parseManifest(data: unknown, baseUrl: string): MissionManifest {
+    const manifest = expectObject(data, 'manifest');
+    const version = expectNumber(manifest.version, 'manifest.version');
+    if (version > manifestVersion) {
+        throw new ValidationError(
+            'manifest.version',
+            `is ${version}, newer than the supported version ${manifestVersion}`
+        );
+    }
+
+    const resolve: UrlResolver = (value, path) =>
+        resolveUrl(expectString(value, path), baseUrl);
+
+    const sensor =
+        manifest.sensor !== undefined
+            ? expectObject(manifest.sensor, 'manifest.sensor')
+            : {};
+
+    return {
+        version: version,
+        name:
+            manifest.name !== undefined
+                ? expectString(manifest.name, 'manifest.name')
+                : undefined,
+        source: parseSource(manifest.source, 'manifest.source', resolve),
+        terrain: expectArray(manifest.terrain, 'manifest.terrain').map(
+            (spec, i) => parseTerrain(spec, `manifest.terrain[${i}]`, resolve)
+        ),
+        sensor: {
+            profile:
+                sensor.profile !== undefined
+                    ? expectString(sensor.profile, 'manifest.sensor.profile')
+                    : undefined,
+            calibration:
+                sensor.calibration !== undefined
+                    ? validateLensCalibration(
+                          sensor.calibration,
+                          'manifest.sensor.calibration'
+                      )
+                    : undefined,
+        },
+        layers: expectArray(manifest.layers || [], 'manifest.layers').map(
+            (layer, i) => parseLayer(layer, `manifest.layers[${i}]`, resolve)
+        ),
+    };
+}
+
+/**
+ * Async fetch of a manifest.
+ * @param url Manifest URL
+ * @returns Promise carrying the manifest
+ */
+export async function fetchManifest(url: string): Promise<MissionManifest> {
+    const baseUrl = new URL(url, window.location.href).href;
+    return fetchJSON(url, (data) => parseManifest(data, baseUrl));
+}
+
+/**
+ * Read a manifest from a local file, e.g. a dropped file. Relative URLs
+ * are relative the viewer's page, as the file has no URL.
+ * @param file The file
+ * @returns Promise carrying the manifest
+ */
+export async function readManifestFile(file: File): Promise<MissionManifest> {
+    let data: unknown;
+    try {
+        data = JSON.parse(await file.text());
+    } catch (e) {
+        throw new LoadError(file.name, 'not valid JSON', e);
+    }
+
+    try {
+        return parseManifest(data, window.location.href);
+    } catch (e) {
+        throw new LoadError(file.name, 'invalid manifest', e);
+    }
+}
+
+/**
+ * Create the player for a mission's sensor data. The frames of an image
+ * sequence are loaded with their metadata, with the sensor's calibration
+ * added to metadata without one.
+ * @param manifest The manifest
+ * @param report Receiver of frames that fail to load
+ * @returns Promise carrying the player
+ */
+export async function loadMissionPlayer(
+    manifest: MissionManifest,
+    report: LoadReport = warnOnFailure
+): Promise<FramePlayer> {
+    const source = manifest.source;
+    if (source.type == 'video') {
+        return new VideoPlayer(await fetchVideo(source.url), source.frameRate);
+    }
+
+    const frames = frameNumbers(source);
+    const cache = new FrameCache(
+        frames.map((n) => frameUrl(source.images, n)),
+        frames.map((n) => frameUrl(source.metadata, n)),
+        defaultFrameCacheOptions,
+        (value) => withCalibration(manifest, validateMetadata(value))
+    );
+    return fetchImageSequencePlayer(cache, source.frameRate, report);
+}
+
+/**
+ * Load the metadata track of a mission's video. Invalid samples are
+ * skipped. The sensor's calibration is added to metadata without one.
+ * @param manifest The manifest
+ * @param report Receiver of skipped samples
+ * @returns Promise carrying the track, undefined for image sequences as
+ * their metadata is loaded with each frame
+ */
+export async function loadMissionTrack(
+    manifest: MissionManifest,
+    report: LoadReport = warnOnFailure
+): Promise<MetadataTrack | undefined> {
+    const source = manifest.source;
+    if (source.type != 'video') {
+        return undefined;
+    }
+
+    const samples = await fetchMetadataSamples(source.track, report);
+    return new MetadataTrack(
+        samples.map((sample) => ({
+            time: sample.time,
+            metadata: withCalibration(manifest, sample.metadata),
+        })),
+        source.interpolation || defaultInterpolationOptions
+    );
+}
+
+/**
+ * Load the terrain of a mission. Streamed terrain is set up to be loaded
+ * by its tile manager, and other terrain is loaded at once. Terrain
+ * sources that fail to load are skipped.
+ * @param manifest The manifest
+ * @param report Receiver of loaded and failed sources, and failed tiles
+ * @returns Promise carrying the terrain
+ */
+export async function loadMissionTerrain(
+    manifest: MissionManifest,
+    report: LoadReport = warnOnFailure
+): Promise<MissionTerrain> {
+    const terrain: MissionTerrain = {
+        root: new Three.Group(),
+        tileManagers: [],
+    };
+
+    for (const [i, spec] of manifest.terrain.entries()) {
+        const item = `Terrain ${i + 1} (${spec.type})`;
+        try {
+            const converter = createCrsToEcefConverter(
+                spec.crs,
+                await verticalDatum(spec.verticalDatum)
+            );
+            if (spec.type == 'tiles') {
+                const tileManager = new TileManager(
+                    spec.tiling,
+                    converter,
+                    (url) =>
+                        fetchTerrainTile(url, converter).catch((e) => {
+                            report(`Tile ${url}`, e);
+                            throw e;
+                        })
+                );
+                terrain.tileManagers.push(tileManager);
+                terrain.root.add(tileManager.root());
+            } else {
+                const source = terrainSource(spec, converter);
+                const [, groups] = await source.load();
+                groups.forEach((group) => terrain.root.add(group));
+            }
+            report(item);
+        } catch (e) {
+            report(item, e);
+        }
+    }
+
+    return terrain;
+}
+
+/**
+ * Load the overlay layers of a mission. The layers are not built, and
+ * layers that fail to load are skipped.
+ * @param manifest The manifest
+ * @param report Receiver of loaded and failed layers
+ * @returns Promise carrying the layers
+ */
+export async function loadMissionLayers(
+    manifest: MissionManifest,
+    report: LoadReport = warnOnFailure
+): Promise<GeoJsonLayer[]> {
+    const layers: GeoJsonLayer[] = [];
+    for (const spec of manifest.layers || []) {
+        try {
+            layers.push(
+                await fetchGeoJsonLayer(spec.url, {
+                    ...defaultGeoJsonLayerOptions,
+                    crs: spec.crs,
+                    verticalDatum: await verticalDatum(spec.verticalDatum),
+                    clampToTerrain:
+                        spec.clampToTerrain !== undefined
+                            ? spec.clampToTerrain
+                            : defaultGeoJsonLayerOptions.clampToTerrain,
+                    heightOffset:
+                        spec.heightOffset !== undefined
+                            ? spec.heightOffset
+                            : defaultGeoJsonLayerOptions.heightOffset,
+                    style: {
+                        ...defaultGeoJsonLayerOptions.style,
+                        ...spec.style,
+                    },
+                })
+            );
+            report(`Layer ${spec.url}`);
+        } catch (e) {
+            report(`Layer ${spec.url}`, e);
+        }
+    }
+
+    return layers;
+}
+
+/**
+ * Resolver of a manifest's URLs, validating them first.
+ */
+type UrlResolver = (value: unknown, path: string) => string;
+
+/**
+ * Resolve a URL against a base, keeping the braces of URL templates.
+ */
+function resolveUrl(url: string, baseUrl: string): string {
+    return new URL(url, baseUrl).href
+        .replace(/%7B/gi, '{')
+        .replace(/%7D/gi, '}');
+}
+
+function parseSource(
+    value: unknown,
+    path: string,
+    resolve: UrlResolver
+): SourceSpec {
+    const source = expectObject(value, path);
+    const frameRate =
+        source.frameRate !== undefined
+            ? expectNumber(source.frameRate, `${path}.frameRate`, 1e-3)
+            : undefined;
+
+    if (source.type == 'video') {
+        return {
+            type: 'video',
+            url: resolve(source.url, `${path}.url`),
+            track: resolve(source.track, `${path}.track`),
+            frameRate: frameRate,
+            interpolation:
+                source.interpolation !== undefined
+                    ? parseInterpolation(
+                          source.interpolation,
+                          `${path}.interpolation`
+                      )
+                    : undefined,
+        };
+    } else if (source.type == 'frames') {
+        return {
+            type: 'frames',
+            images: resolve(source.images, `${path}.images`),
+            metadata: resolve(source.metadata, `${path}.metadata`),
+            count: expectNumber(source.count, `${path}.count`, 1),
+            first:
+                source.first !== undefined
+                    ? expectNumber(source.first, `${path}.first`)
+                    : undefined,
+            frameRate: frameRate,
+        };
+    }
+
+    throw new ValidationError(
+        `${path}.type`,
+        `is '${source.type}', not 'video' or 'frames'`
+    );
+}
+
+function parseTerrain(
+    value: unknown,
+    path: string,
+    resolve: UrlResolver
+): TerrainSpec {
+    const spec = expectObject(value, path);
+    const crs = expectString(spec.crs, `${path}.crs`);
+    const datum = parseVerticalDatum(
+        spec.verticalDatum,
+        `${path}.verticalDatum`,
+        resolve
+    );
+
+    if (spec.type == 'tiles') {
+        const tiling = expectObject(spec.tiling, `${path}.tiling`);
+        const number = (key: string) =>
+            expectNumber(tiling[key], `${path}.tiling.${key}`);
+        const extent = expectArray(tiling.extent, `${path}.tiling.extent`);
+        if (extent.length != 4) {
+            throw new ValidationError(
+                `${path}.tiling.extent`,
+                'is not [minX, minY, maxX, maxY]'
+            );
+        }
+
+        return {
+            type: 'tiles',
+            crs: crs,
+            verticalDatum: datum,
+            tiling: {
+                urlTemplate: resolve(
+                    tiling.urlTemplate,
+                    `${path}.tiling.urlTemplate`
+                ),
+                originX: number('originX'),
+                originY: number('originY'),
+                level0Size: number('level0Size'),
+                yDown:
+                    tiling.yDown !== undefined
+                        ? expectBoolean(tiling.yDown, `${path}.tiling.yDown`)
+                        : false,
+                minLevel: number('minLevel'),
+                maxLevel: number('maxLevel'),
+                minHeight: number('minHeight'),
+                maxHeight: number('maxHeight'),
+                extent: extent.map((coord, i) =>
+                    expectNumber(coord, `${path}.tiling.extent[${i}]`)
+                ) as [number, number, number, number],
+            },
+        };
+    } else if (spec.type == 'collada' || spec.type == 'gltf') {
+        return {
+            type: spec.type == 'collada' ? 'collada' : 'gltf',
+            crs: crs,
+            verticalDatum: datum,
+            urls: expectArray(spec.urls, `${path}.urls`).map((url, i) =>
+                resolve(url, `${path}.urls[${i}]`)
+            ),
+        };
+    } else if (spec.type == 'dem') {
+        return {
+            type: 'dem',
+            crs: crs,
+            verticalDatum: datum,
+            url: resolve(spec.url, `${path}.url`),
+            stride:
+                spec.stride !== undefined
+                    ? expectNumber(spec.stride, `${path}.stride`, 1)
+                    : undefined,
+            chunkSize:
+                spec.chunkSize !== undefined
+                    ? expectNumber(spec.chunkSize, `${path}.chunkSize`, 1)
+                    : undefined,
+        };
+    }
+
+    throw new ValidationError(
+        `${path}.type`,
+        `is '${spec.type}', not a terrain type`
+    );
+}
+
+function parseLayer(
+    value: unknown,
+    path: string,
+    resolve: UrlResolver
+): LayerSpec {
+    const layer = expectObject(value, path);
+    if (layer.type != 'geojson') {
+        throw new ValidationError(`${path}.type`, `is not 'geojson'`);
+    }
+
+    return {
+        type: 'geojson',
+        url: resolve(layer.url, `${path}.url`),
+        crs:
+            layer.crs !== undefined
+                ? expectString(layer.crs, `${path}.crs`)
+                : undefined,
+        verticalDatum: parseVerticalDatum(
+            layer.verticalDatum,
+            `${path}.verticalDatum`,
+            resolve
+        ),
+        clampToTerrain:
+            layer.clampToTerrain !== undefined
+                ? expectBoolean(layer.clampToTerrain, `${path}.clampToTerrain`)
+                : undefined,
+        heightOffset:
+            layer.heightOffset !== undefined
+                ? expectNumber(layer.heightOffset, `${path}.heightOffset`)
+                : undefined,
+        style:
+            layer.style !== undefined
+                ? parseStyle(layer.style, `${path}.style`)
+                : undefined,
+    };
+}
+
+/**
+ * Parse interpolation options, with defaults for the ones not given.
+ */
+function parseInterpolation(
+    value: unknown,
+    path: string
+): InterpolationOptions {
+    const options = expectObject(value, path);
+    if (
+        options.position !== undefined &&
+        options.position != 'linear' &&
+        options.position != 'spline'
+    ) {
+        throw new ValidationError(
+            `${path}.position`,
+            `is '${options.position}', not 'linear' or 'spline'`
+        );
+    }
+
+    return {
+        position:
+            options.position == 'spline'
+                ? 'spline'
+                : defaultInterpolationOptions.position,
+        maxGap:
+            options.maxGap !== undefined
+                ? expectNumber(options.maxGap, `${path}.maxGap`, 0.0)
+                : defaultInterpolationOptions.maxGap,
+    };
+}
+
+/**
+ * Parse a layer style. Colors and the label property are strings, and
+ * the other fields are numbers.
+ */
+function parseStyle(value: unknown, path: string): Partial<GeoJsonStyle> {
+    const style = expectObject(value, path);
+    const parsed: { [key: string]: string | number } = {};
+    Object.keys(style).forEach((key) => {
+        const keyPath = `${path}.${key}`;
+        if (styleStrings.indexOf(key) >= 0) {
+            if (typeof style[key] != 'string') {
+                throw new ValidationError(keyPath, 'is not a string');
+            }
+            parsed[key] = style[key] as string;
+        } else if (styleNumbers.has(key)) {
+            parsed[key] = expectNumber(
+                style[key],
+                keyPath,
+                0.0,
+                styleNumbers.get(key)
+            );
+        } else {
+            throw new ValidationError(keyPath, 'is not a style field');
+        }
+    });
+
+    return parsed as Partial<GeoJsonStyle>;
+}
+
+function parseVerticalDatum(
+    value: unknown,
+    path: string,
+    resolve: UrlResolver
+): ManifestVerticalDatum | undefined {
+    if (value === undefined) {
+        return undefined;
+    }
+
+    const datum = expectObject(value, path);
+    if (datum.type == 'ellipsoid') {
+        return { type: 'ellipsoid' };
+    } else if (datum.type == 'constant') {
+        return {
+            type: 'constant',
+            undulation: expectNumber(datum.undulation, `${path}.undulation`),
+        };
+    } else if (datum.type == 'geoid') {
+        return { type: 'geoid', url: resolve(datum.url, `${path}.url`) };
+    }
+
+    throw new ValidationError(
+        `${path}.type`,
+        `is '${datum.type}', not a vertical datum type`
+    );
+}
+
+function terrainSource(
+    spec: ModelTerrainSpec | DemTerrainSpec,
+    converter: EcefConverter
+): TerrainSource {
+    if (spec.type == 'dem') {
+        return new DemTerrainSource(spec.url, converter, {
+            ...defaultDemOptions,
+            stride: spec.stride || defaultDemOptions.stride,
+            chunkSize: spec.chunkSize || defaultDemOptions.chunkSize,
+        });
+    }
+
+    return spec.type == 'collada'
+        ? new ColladaTerrainSource(spec.urls, converter)
+        : new GltfTerrainSource(spec.urls, converter);
+}
+
+async function verticalDatum(
+    datum: ManifestVerticalDatum | undefined
+): Promise<VerticalDatum> {
+    if (!datum) {
+        return { type: 'ellipsoid' };
+    } else if (datum.type == 'geoid') {
+        return { type: 'geoid', grid: await fetchGeoidGrid(datum.url) };
+    }
+
+    return datum;
+}
+
+function withCalibration(
+    manifest: MissionManifest,
+    metadata: CameraMetadata
+): CameraMetadata {
+    const calibration = manifest.sensor && manifest.sensor.calibration;
+    return calibration ? { calibration: calibration, ...metadata } : metadata;
+}
+
+function frameNumbers(source: FrameSequenceSpec): number[] {
+    const first = source.first || 0;
+    return Array.from({ length: source.count }, (_, i) => first + i);
+}
+
+function frameUrl(template: string, n: number): string {
+    return template.replace(/\{n\}/g, n.toString());
+}
+
+const styleStrings = ['stroke', 'fill', 'markerColor', 'labelProperty'];
+
+/**
+ * The numeric style fields, with their largest values.
+ */
+const styleNumbers = new Map<string, number>([
+    ['strokeWidth', Infinity],
+    ['strokeOpacity', 1.0],
+    ['fillOpacity', 1.0],
+    ['markerSize', Infinity],
+    ['labelSize', Infinity],
+]);
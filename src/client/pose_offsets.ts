@@ -0,0 +1,228 @@
+import * as Three from 'three';
+import { degToRad, radToDeg } from 'three/src/math/MathUtils';
+
+import {
+    Metadata,
+    decomposeYPR,
+    matrixYPR,
+    nedToEcefRotation,
+    toEcefMetadata,
+} from './app_util';
+import { ecefToGeodetic } from './geo_query';
+import {
+    ValidationError,
+    describeError,
+    expectArray,
+    expectNumber,
+    expectObject,
+    validateMetadata,
+} from './validation';
+
+/**
+ * Corrections for the bias of a sensor's metadata. The attitude offsets
+ * (boresight) are in degrees, rotating the sensor in its own frame. The
+ * position offsets are in meters, in the local North-East-Down frame at
+ * the sensor. The field of view offsets are in degrees.
+ */
+export interface PoseOffsets {
+    yaw: number;
+    pitch: number;
+    roll: number;
+    north: number;
+    east: number;
+    down: number;
+    hfov: number;
+    vfov: number;
+}
+
+/**
+ * Offsets for no correction.
+ */
+export const zeroPoseOffsets: PoseOffsets = {
+    yaw: 0.0,
+    pitch: 0.0,
+    roll: 0.0,
+    north: 0.0,
+    east: 0.0,
+    down: 0.0,
+    hfov: 0.0,
+    vfov: 0.0,
+};
+
+/**
+ * Apply offsets to metadata.
+ * @param metadata The metadata
+ * @param offsets The offsets
+ * @returns The corrected metadata
+ */
+export function applyPoseOffsets(
+    metadata: Metadata,
+    offsets: PoseOffsets
+): Metadata {
+    // The boresight rotation is applied in the sensor's frame.
+    const rotation = matrixYPR(
+        degToRad(metadata.yaw),
+        degToRad(metadata.pitch),
+        degToRad(metadata.roll)
+    ).multiply(
+        matrixYPR(
+            degToRad(offsets.yaw),
+            degToRad(offsets.pitch),
+            degToRad(offsets.roll)
+        )
+    );
+    const [yaw, pitch, roll] = decomposeYPR(rotation);
+
+    const position = new Three.Vector3(metadata.x, metadata.y, metadata.z);
+    if (offsets.north != 0.0 || offsets.east != 0.0 || offsets.down != 0.0) {
+        const { latitude, longitude } = ecefToGeodetic(position);
+        position.add(
+            new Three.Vector3(
+                offsets.north,
+                offsets.east,
+                offsets.down
+            ).applyMatrix4(
+                nedToEcefRotation(degToRad(latitude), degToRad(longitude))
+            )
+        );
+    }
+
+    return {
+        ...metadata,
+        x: position.x,
+        y: position.y,
+        z: position.z,
+        yaw: radToDeg(yaw),
+        pitch: radToDeg(pitch),
+        roll: radToDeg(roll),
+        hfov: metadata.hfov + offsets.hfov,
+        vfov: metadata.vfov + offsets.vfov,
+    };
+}
+
+/**
+ * Load the offsets saved for a sensor profile. Offsets that are missing
+ * or not finite numbers are zero.
+ * @param profile The profile name
+ * @returns The offsets, zero if none are saved
+ */
+export function loadPoseOffsets(profile: string): PoseOffsets {
+    const offsets = { ...zeroPoseOffsets };
+    const saved = window.localStorage.getItem(storageKey(profile));
+    if (saved === null) {
+        return offsets;
+    }
+
+    let data: { [key: string]: unknown };
+    try {
+        data = expectObject(JSON.parse(saved), 'offsets');
+    } catch (e) {
+        console.warn(
+            `Malformed pose offsets for profile '${profile}': ${describeError(e)}`
+        );
+        return offsets;
+    }
+
+    (Object.keys(zeroPoseOffsets) as (keyof PoseOffsets)[]).forEach((key) => {
+        if (data[key] === undefined) {
+            return;
+        }
+
+        try {
+            offsets[key] = expectNumber(data[key], `offsets.${key}`);
+        } catch (e) {
+            console.warn(
+                `Pose offsets for profile '${profile}': ${describeError(e)}, using zero`
+            );
+        }
+    });
+
+    return offsets;
+}
+
+/**
+ * Save the offsets for a sensor profile.
+ * @param profile The profile name
+ * @param offsets The offsets
+ */
+export function savePoseOffsets(profile: string, offsets: PoseOffsets): void {
+    window.localStorage.setItem(storageKey(profile), JSON.stringify(offsets));
+}
+
+/**
+ * Load the frame corrections saved for a mission: metadata replacing the
+ * corrected metadata of single frames, by frame index. Invalid entries
+ * are skipped.
+ * @param mission The mission name
+ * @returns The corrections, empty if none are saved
+ */
+export function loadFrameCorrections(mission: string): Map<number, Metadata> {
+    const corrections = new Map<number, Metadata>();
+    const saved = window.localStorage.getItem(correctionsKey(mission));
+    if (saved === null) {
+        return corrections;
+    }
+
+    let entries: unknown[];
+    try {
+        entries = expectArray(JSON.parse(saved), 'corrections');
+    } catch (e) {
+        console.warn(
+            `Malformed frame corrections for mission '${mission}': ${describeError(e)}`
+        );
+        return corrections;
+    }
+
+    entries.forEach((value, i) => {
+        const path = `corrections[${i}]`;
+        try {
+            const entry = expectObject(value, path);
+            const frame = expectNumber(entry.frame, `${path}.frame`, 0.0);
+            if (!Number.isInteger(frame)) {
+                throw new ValidationError(
+                    `${path}.frame`,
+                    `is ${frame}, not a frame index`
+                );
+            }
+            corrections.set(
+                frame,
+                toEcefMetadata(
+                    validateMetadata(entry.metadata, `${path}.metadata`)
+                )
+            );
+        } catch (e) {
+            console.warn(
+                `Frame corrections for mission '${mission}': ${describeError(e)}, skipped`
+            );
+        }
+    });
+
+    return corrections;
+}
+
+/**
+ * Save the frame corrections of a mission.
+ * @param mission The mission name
+ * @param corrections The corrections, by frame index
+ */
+export function saveFrameCorrections(
+    mission: string,
+    corrections: Map<number, Metadata>
+): void {
+    const entries: { frame: number; metadata: Metadata }[] = [];
+    corrections.forEach((metadata, frame) =>
+        entries.push({ frame: frame, metadata: metadata })
+    );
+    window.localStorage.setItem(
+        correctionsKey(mission),
+        JSON.stringify(entries)
+    );
+}
+
+function storageKey(profile: string): string {
+    return `augmented-video.pose-offsets.${profile}`;
+}
+
+function correctionsKey(mission: string): string {
+    return `augmented-video.frame-corrections.${mission}`;
+}
@@ -0,0 +1,304 @@
+import * as Three from 'three';
+import { degToRad } from 'three/src/math/MathUtils';
+
+import { Metadata, cameraRotationYPR } from './app_util';
+import { distortPoint } from './lens_calibration';
+import { PoseOffsets, applyPoseOffsets, zeroPoseOffsets } from './pose_offsets';
+
+/**
+ * A tie point between an image pixel and its ground position. Pixel
+ * coordinates are those of the original image, as for GeoQuery.
+ */
+export interface TiePoint {
+    x: number;
+    y: number;
+    ecef: Three.Vector3;
+}
+
+/**
+ * The residual of a tie point, in pixels, as the projection of the ground
+ * position minus the pixel.
+ */
+export interface TieResidual {
+    dx: number;
+    dy: number;
+    error: number;
+}
+
+/**
+ * Options for the pose refinement. The attitude is always solved.
+ */
+export interface RefinementOptions {
+    /** Solve for the position too, which needs at least three points. */
+    solvePosition: boolean;
+    /** Solve for the field of view too. */
+    solveFov: boolean;
+    maxIterations: number;
+}
+
+/**
+ * Default refinement options.
+ */
+export const defaultRefinementOptions: RefinementOptions = {
+    solvePosition: false,
+    solveFov: false,
+    maxIterations: 50,
+};
+
+/**
+ * The result of a pose refinement.
+ */
+export interface RefinementResult {
+    /** The solved offsets, relative the seed metadata. */
+    offsets: PoseOffsets;
+    /** The seed metadata with the solved offsets applied. */
+    metadata: Metadata;
+    residuals: TieResidual[];
+    /** Root mean square of the residual errors, in pixels. */
+    rms: number;
+    converged: boolean;
+}
+
+/**
+ * Refine the pose for an image from tie points, by a Levenberg-Marquardt
+ * least squares fit of pose offsets that minimize the reprojection errors.
+ * @param metadata The seed metadata
+ * @param tiePoints The tie points
+ * @param imageWidth Width of the image in pixels
+ * @param imageHeight Height of the image in pixels
+ * @param initial Initial offsets
+ * @param options Refinement options
+ * @returns The refinement result
+ */
+export function refinePose(
+    metadata: Metadata,
+    tiePoints: TiePoint[],
+    imageWidth: number,
+    imageHeight: number,
+    initial: PoseOffsets = zeroPoseOffsets,
+    options: RefinementOptions = defaultRefinementOptions
+): RefinementResult {
+    const parameters = solvedParameters(options);
+    const needed = Math.ceil(parameters.length / 2);
+    if (tiePoints.length < needed) {
+        throw new Error(`Pose refinement needs at least ${needed} tie points`);
+    }
+
+    const residualsFor = (offsets: PoseOffsets): number[] => {
+        const corrected = applyPoseOffsets(metadata, offsets);
+        const residuals: number[] = [];
+        tiePoints.forEach((tie) => {
+            const pixel = projectToPixel(
+                corrected,
+                tie.ecef,
+                imageWidth,
+                imageHeight
+            );
+            if (pixel) {
+                residuals.push(pixel[0] - tie.x, pixel[1] - tie.y);
+            } else {
+                residuals.push(NaN, NaN);
+            }
+        });
+
+        return residuals;
+    };
+
+    let offsets = { ...initial };
+    let residuals = residualsFor(offsets);
+    let cost = sumOfSquares(residuals);
+    let lambda = 1e-3;
+    let converged = false;
+
+    for (
+        let iteration = 0;
+        iteration < options.maxIterations && isFinite(cost) && !converged;
+        ++iteration
+    ) {
+        // Forward difference Jacobian, one column per parameter.
+        const jacobian = parameters.map(([key, step]) => {
+            const moved = { ...offsets };
+            moved[key] += step;
+            return residualsFor(moved).map(
+                (value, i) => (value - residuals[i]) / step
+            );
+        });
+
+        // Normal equations.
+        const normal = jacobian.map((a) => jacobian.map((b) => dot(a, b)));
+        const gradient = jacobian.map((a) => -dot(a, residuals));
+
+        // Increase the damping until a step decreases the cost.
+        for (;;) {
+            const damped = normal.map((row, i) =>
+                row.map((value, j) =>
+                    i == j ? value + lambda * Math.max(value, 1e-9) : value
+                )
+            );
+            const delta = solveLinear(damped, gradient);
+
+            if (delta) {
+                const candidate = { ...offsets };
+                parameters.forEach(([key], i) => (candidate[key] += delta[i]));
+                const candidateResiduals = residualsFor(candidate);
+                const candidateCost = sumOfSquares(candidateResiduals);
+
+                if (candidateCost < cost) {
+                    converged =
+                        cost - candidateCost < 1e-12 * (1.0 + cost) ||
+                        Math.sqrt(dot(delta, delta)) < 1e-9;
+                    offsets = candidate;
+                    residuals = candidateResiduals;
+                    cost = candidateCost;
+                    lambda = Math.max(lambda / 10.0, 1e-12);
+                    break;
+                }
+            }
+
+            lambda *= 10.0;
+            if (lambda > 1e12) {
+                // No step improves the cost, so this is a minimum.
+                converged = true;
+                break;
+            }
+        }
+    }
+
+    if (!isFinite(cost)) {
+        console.warn('Pose refinement with tie points behind the sensor');
+    }
+
+    const tieResiduals = tiePoints.map((_, i) => {
+        const dx = residuals[2 * i];
+        const dy = residuals[2 * i + 1];
+        return { dx: dx, dy: dy, error: Math.sqrt(dx * dx + dy * dy) };
+    });
+
+    return {
+        offsets: offsets,
+        metadata: applyPoseOffsets(metadata, offsets),
+        residuals: tieResiduals,
+        rms: Math.sqrt(cost / tiePoints.length),
+        converged: converged && isFinite(cost),
+    };
+}
+
+/**
+ * Project an ECEF position into the image taken with a metadata, without
+ * regard to terrain occlusion or the image bounds.
+ * @param metadata The metadata
+ * @param point The position
+ * @param imageWidth Width of the image in pixels
+ * @param imageHeight Height of the image in pixels
+ * @returns The pixel coordinates [x, y], or undefined if behind the sensor
+ */
+export function projectToPixel(
+    metadata: Metadata,
+    point: Three.Vector3,
+    imageWidth: number,
+    imageHeight: number
+): [number, number] | undefined {
+    const rotation = cameraRotationYPR(
+        degToRad(metadata.yaw),
+        degToRad(metadata.pitch),
+        degToRad(metadata.roll),
+        true
+    );
+
+    // To the camera frame, looking along -z with y up.
+    const local = point
+        .clone()
+        .sub(new Three.Vector3(metadata.x, metadata.y, metadata.z))
+        .applyMatrix3(new Three.Matrix3().setFromMatrix4(rotation).transpose());
+    if (local.z >= 0.0) {
+        return undefined;
+    }
+
+    const calibration = metadata.calibration || {};
+    const [cameraX, cameraY] = distortPoint(
+        calibration,
+        local.x / -local.z,
+        -local.y / -local.z
+    );
+    const tanHalfHFov = Math.tan(degToRad(metadata.hfov) / 2.0);
+    const tanHalfVFov = Math.tan(degToRad(metadata.vfov) / 2.0);
+
+    return [
+        (cameraX / (2.0 * tanHalfHFov) + (calibration.cx || 0.0) + 0.5) *
+            imageWidth,
+        (cameraY / (2.0 * tanHalfVFov) + (calibration.cy || 0.0) + 0.5) *
+            imageHeight,
+    ];
+}
+
+/**
+ * The parameters to solve, with the step for the numerical derivatives.
+ */
+function solvedParameters(
+    options: RefinementOptions
+): [keyof PoseOffsets, number][] {
+    const parameters: [keyof PoseOffsets, number][] = [
+        ['yaw', 1e-4],
+        ['pitch', 1e-4],
+        ['roll', 1e-4],
+    ];
+    if (options.solvePosition) {
+        parameters.push(['north', 1e-3], ['east', 1e-3], ['down', 1e-3]);
+    }
+    if (options.solveFov) {
+        parameters.push(['hfov', 1e-4], ['vfov', 1e-4]);
+    }
+
+    return parameters;
+}
+
+function dot(a: number[], b: number[]): number {
+    return a.reduce((sum, value, i) => sum + value * b[i], 0.0);
+}
+
+function sumOfSquares(values: number[]): number {
+    return dot(values, values);
+}
+
+/**
+ * Solve a small linear system by Gaussian elimination with partial
+ * pivoting.
+ * @param a The matrix, as rows
+ * @param b The right hand side
+ * @returns The solution, or undefined if the matrix is singular
+ */
+function solveLinear(a: number[][], b: number[]): number[] | undefined {
+    const n = b.length;
+    const m = a.map((row, i) => [...row, b[i]]);
+
+    for (let col = 0; col < n; ++col) {
+        let pivot = col;
+        for (let row = col + 1; row < n; ++row) {
+            if (Math.abs(m[row][col]) > Math.abs(m[pivot][col])) {
+                pivot = row;
+            }
+        }
+        if (Math.abs(m[pivot][col]) < 1e-15) {
+            return undefined;
+        }
+        [m[col], m[pivot]] = [m[pivot], m[col]];
+
+        for (let row = col + 1; row < n; ++row) {
+            const factor = m[row][col] / m[col][col];
+            for (let k = col; k <= n; ++k) {
+                m[row][k] -= factor * m[col][k];
+            }
+        }
+    }
+
+    const x = new Array<number>(n).fill(0.0);
+    for (let row = n - 1; row >= 0; --row) {
+        let sum = m[row][n];
+        for (let k = row + 1; k < n; ++k) {
+            sum -= m[row][k] * x[k];
+        }
+        x[row] = sum / m[row][row];
+    }
+
+    return x;
+}
@@ -0,0 +1,252 @@
+import * as Three from 'three';
+import { GUI } from 'three/examples/jsm/libs/dat.gui.module';
+
+import { geodeticToEcef } from './app_util';
+import {
+    RefinementOptions,
+    RefinementResult,
+    TiePoint,
+    defaultRefinementOptions,
+} from './pose_refinement';
+
+/**
+ * Actions of the refinement panel, implemented by the application.
+ */
+export interface RefinementActions {
+    /** Solve the pose from the tie points. */
+    solve: (
+        tiePoints: TiePoint[],
+        options: RefinementOptions
+    ) => RefinementResult | undefined;
+    /** Accept the result for the current frame only. */
+    acceptFrame: (result: RefinementResult) => void;
+    /** Accept the result for the whole sequence. */
+    acceptSequence: (result: RefinementResult) => void;
+}
+
+/**
+ * A panel to collect tie points for the current frame, solve the pose
+ * from them and accept the result. A tie point is made by first adding
+ * an image pixel, and then its ground position, either picked from the
+ * terrain or typed in as a geodetic control point.
+ */
+export class RefinementPanel {
+    /**
+     * Create a new panel.
+     * @param actions The actions
+     */
+    public constructor(actions: RefinementActions) {
+        this._actions = actions;
+
+        this._gui = new GUI({ name: 'Pose refinement', width: 300 });
+        this._gui.add(this._status, 'text').name('Status').listen();
+
+        const options = this._gui.addFolder('Options');
+        options.add(this._options, 'solvePosition').name('Solve position');
+        options.add(this._options, 'solveFov').name('Solve field of view');
+
+        const control = this._gui.addFolder('Control point (deg, m)');
+        control.add(this._control, 'latitude', -90.0, 90.0);
+        control.add(this._control, 'longitude', -180.0, 180.0);
+        control.add(this._control, 'height');
+        control
+            .add(
+                {
+                    add: () =>
+                        this.addGround(
+                            geodeticToEcefPoint(
+                                this._control.latitude,
+                                this._control.longitude,
+                                this._control.height
+                            )
+                        ),
+                },
+                'add'
+            )
+            .name('Add for pixel');
+
+        const buttons = {
+            solve: () => this.solve(),
+            acceptFrame: () => this.accept(this._actions.acceptFrame),
+            acceptSequence: () => this.accept(this._actions.acceptSequence),
+            undo: () => this.undo(),
+            clear: () => this.clear(),
+        };
+        this._gui.add(buttons, 'solve').name('Solve');
+        this._gui.add(buttons, 'acceptFrame').name('Accept for frame');
+        this._gui.add(buttons, 'acceptSequence').name('Accept for sequence');
+        this._gui.add(buttons, 'undo').name('Undo');
+        this._gui.add(buttons, 'clear').name('Clear tie points');
+
+        this._residuals = this._gui.addFolder('Residuals (px)');
+        this.updateStatus();
+    }
+
+    /**
+     * Get the collected tie points.
+     * @returns The tie points
+     */
+    public tiePoints(): TiePoint[] {
+        return this._tiePoints;
+    }
+
+    /**
+     * Check if a pixel is waiting for its ground position.
+     * @returns True if waiting
+     */
+    public hasPendingPixel(): boolean {
+        return this._pending !== undefined;
+    }
+
+    /**
+     * Add an image pixel, to be paired with the next ground position.
+     * @param x Pixel x coordinate
+     * @param y Pixel y coordinate
+     */
+    public addPixel(x: number, y: number): void {
+        this._pending = new Three.Vector2(x, y);
+        this.updateStatus();
+    }
+
+    /**
+     * Add the ground position for the pending pixel.
+     * @param ecef The ECEF position
+     */
+    public addGround(ecef: Three.Vector3): void {
+        if (!this._pending) {
+            console.warn('Add an image pixel before its ground position');
+            return;
+        }
+
+        this._tiePoints.push({
+            x: this._pending.x,
+            y: this._pending.y,
+            ecef: ecef.clone(),
+        });
+        this._pending = undefined;
+        this.setResult(undefined);
+    }
+
+    /**
+     * Remove the pending pixel, or else the last tie point.
+     */
+    public undo(): void {
+        if (this._pending) {
+            this._pending = undefined;
+        } else {
+            this._tiePoints.pop();
+        }
+        this.setResult(undefined);
+    }
+
+    /**
+     * Remove all tie points, e.g. when the frame is changed.
+     */
+    public clear(): void {
+        this._tiePoints.length = 0;
+        this._pending = undefined;
+        this.setResult(undefined);
+    }
+
+    /**
+     * Show or hide the panel.
+     * @param visible Flag to show the panel
+     */
+    public setVisible(visible: boolean): void {
+        if (visible) {
+            this._gui.show();
+        } else {
+            this._gui.hide();
+        }
+        this._visible = visible;
+    }
+
+    /**
+     * Check if the panel is shown.
+     * @returns True if shown
+     */
+    public visible(): boolean {
+        return this._visible;
+    }
+
+    /**
+     * Remove the panel.
+     */
+    public dispose(): void {
+        this._gui.destroy();
+    }
+
+    private solve(): void {
+        this.setResult(
+            this._actions.solve(this._tiePoints, { ...this._options })
+        );
+    }
+
+    private accept(action: (result: RefinementResult) => void): void {
+        if (!this._result) {
+            console.warn('No pose refinement to accept');
+            return;
+        }
+
+        action(this._result);
+    }
+
+    /**
+     * Set the latest result, and list its residuals.
+     */
+    private setResult(result: RefinementResult | undefined): void {
+        this._result = result;
+
+        this._residuals.__controllers
+            .slice()
+            .forEach((controller) => this._residuals.remove(controller));
+        if (result) {
+            const listing: { [name: string]: string } = {};
+            result.residuals.forEach((residual, i) => {
+                listing[`#${i + 1}`] = `${residual.error.toFixed(
+                    2
+                )} (${residual.dx.toFixed(1)}, ${residual.dy.toFixed(1)})`;
+            });
+            Object.keys(listing).forEach((name) =>
+                this._residuals.add(listing, name)
+            );
+            this._residuals.open();
+        }
+
+        this.updateStatus();
+    }
+
+    private updateStatus(): void {
+        const count = this._tiePoints.length;
+        if (this._pending) {
+            this._status.text = `${count} tie points, pick ground`;
+        } else if (this._result) {
+            const converged = this._result.converged ? '' : ', not converged';
+            this._status.text = `RMS ${this._result.rms.toFixed(
+                2
+            )} px${converged}`;
+        } else {
+            this._status.text = `${count} tie points, pick pixel`;
+        }
+    }
+
+    private _actions: RefinementActions;
+    private _gui: GUI;
+    private _residuals: GUI;
+    private _options: RefinementOptions = { ...defaultRefinementOptions };
+    private _control = { latitude: 0.0, longitude: 0.0, height: 0.0 };
+    private _status = { text: '' };
+    private _tiePoints: TiePoint[] = [];
+    private _pending?: Three.Vector2;
+    private _result?: RefinementResult;
+    private _visible = true;
+}
+
+function geodeticToEcefPoint(
+    latitude: number,
+    longitude: number,
+    height: number
+): Three.Vector3 {
+    const [x, y, z] = geodeticToEcef.forward([longitude, latitude, height]);
+    return new Three.Vector3(x, y, z);
+}
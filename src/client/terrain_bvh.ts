@@ -0,0 +1,343 @@
+import * as Three from 'three';
+
+/**
+ * A bounding volume hierarchy over the triangles of a terrain geometry, to
+ * raycast large meshes without testing every triangle.
+ *
+ * The nodes are stored in flat arrays, two numbers per node. An inner node
+ * has two children, the first directly after the node and the second at
+ * the node's first number, and its second number is -1. A leaf has the
+ * first triangle and the count of its range of the reordered triangles.
+ */
+export class TerrainBvh {
+    /**
+     * Build a hierarchy for a geometry.
+     * @param geometry The geometry, indexed or not
+     * @param maxLeafSize Maximum number of triangles in a leaf
+     */
+    public constructor(
+        geometry: Three.BufferGeometry,
+        maxLeafSize: number = 8
+    ) {
+        const positions = geometry.getAttribute('position');
+        const index = geometry.getIndex();
+        const triangleCount = Math.floor(
+            (index ? index.count : positions.count) / 3
+        );
+
+        // Vertex indices and centroids per triangle.
+        this._vertices = new Uint32Array(triangleCount * 3);
+        this._positions = positions;
+        const centroids = new Float32Array(triangleCount * 3);
+        for (let i = 0; i < triangleCount; ++i) {
+            for (let j = 0; j < 3; ++j) {
+                const vertex = index ? index.getX(i * 3 + j) : i * 3 + j;
+                this._vertices[i * 3 + j] = vertex;
+                centroids[i * 3] += positions.getX(vertex) / 3.0;
+                centroids[i * 3 + 1] += positions.getY(vertex) / 3.0;
+                centroids[i * 3 + 2] += positions.getZ(vertex) / 3.0;
+            }
+        }
+
+        this._triangles = new Uint32Array(triangleCount);
+        for (let i = 0; i < triangleCount; ++i) {
+            this._triangles[i] = i;
+        }
+
+        const bounds: number[] = [];
+        const nodes: number[] = [];
+        this.build(
+            centroids,
+            0,
+            triangleCount,
+            Math.max(maxLeafSize, 1),
+            bounds,
+            nodes
+        );
+        this._bounds = new Float32Array(bounds);
+        this._nodes = new Int32Array(nodes);
+    }
+
+    /**
+     * Get the memory used by the hierarchy.
+     * @returns The size in bytes
+     */
+    public byteLength(): number {
+        return (
+            this._vertices.byteLength +
+            this._triangles.byteLength +
+            this._bounds.byteLength +
+            this._nodes.byteLength
+        );
+    }
+
+    /**
+     * Find the closest intersection of a ray with the triangles.
+     * @param ray The ray, in the geometry's space
+     * @param backfaceCulling Flag to skip triangles facing away
+     * @returns The closest intersection, or undefined if none
+     */
+    public intersectRay(
+        ray: Three.Ray,
+        backfaceCulling: boolean
+    ): BvhIntersection | undefined {
+        const a = new Three.Vector3();
+        const b = new Three.Vector3();
+        const c = new Three.Vector3();
+        const point = new Three.Vector3();
+
+        let closest: BvhIntersection | undefined = undefined;
+        let closestDistance = Infinity;
+
+        const stack = [0];
+        while (stack.length > 0) {
+            const node = stack.pop() as number;
+            if (this.boxDistance(ray, node) >= closestDistance) {
+                continue;
+            }
+
+            const count = this._nodes[node * 2 + 1];
+            if (count >= 0) {
+                // A leaf, test its triangles.
+                const first = this._nodes[node * 2];
+                for (let i = first; i < first + count; ++i) {
+                    const triangle = this._triangles[i];
+                    this.vertex(triangle, 0, a);
+                    this.vertex(triangle, 1, b);
+                    this.vertex(triangle, 2, c);
+                    if (
+                        ray.intersectTriangle(a, b, c, backfaceCulling, point)
+                    ) {
+                        const distance = point.distanceTo(ray.origin);
+                        if (distance < closestDistance) {
+                            closestDistance = distance;
+                            closest = {
+                                point: point.clone(),
+                                triangle: triangle,
+                                a: this._vertices[triangle * 3],
+                                b: this._vertices[triangle * 3 + 1],
+                                c: this._vertices[triangle * 3 + 2],
+                                normal: Three.Triangle.getNormal(
+                                    a,
+                                    b,
+                                    c,
+                                    new Three.Vector3()
+                                ),
+                            };
+                        }
+                    }
+                }
+            } else {
+                stack.push(this._nodes[node * 2], node + 1);
+            }
+        }
+
+        return closest;
+    }
+
+    /**
+     * Recursively build the nodes for a range of triangles.
+     */
+    private build(
+        centroids: Float32Array,
+        first: number,
+        count: number,
+        maxLeafSize: number,
+        bounds: number[],
+        nodes: number[]
+    ): void {
+        const node = nodes.length / 2;
+
+        // The node's bounds, and the bounds of the centroids.
+        const min = [Infinity, Infinity, Infinity];
+        const max = [-Infinity, -Infinity, -Infinity];
+        const centroidMin = [Infinity, Infinity, Infinity];
+        const centroidMax = [-Infinity, -Infinity, -Infinity];
+        for (let i = first; i < first + count; ++i) {
+            const triangle = this._triangles[i];
+            for (let j = 0; j < 3; ++j) {
+                const vertex = this._vertices[triangle * 3 + j];
+                const p = [
+                    this._positions.getX(vertex),
+                    this._positions.getY(vertex),
+                    this._positions.getZ(vertex),
+                ];
+                for (let axis = 0; axis < 3; ++axis) {
+                    min[axis] = Math.min(min[axis], p[axis]);
+                    max[axis] = Math.max(max[axis], p[axis]);
+                }
+            }
+            for (let axis = 0; axis < 3; ++axis) {
+                const centroid = centroids[triangle * 3 + axis];
+                centroidMin[axis] = Math.min(centroidMin[axis], centroid);
+                centroidMax[axis] = Math.max(centroidMax[axis], centroid);
+            }
+        }
+        bounds.push(...min, ...max);
+
+        if (count <= maxLeafSize) {
+            nodes.push(first, count);
+            return;
+        }
+
+        // Split at the median along the longest axis of the centroids.
+        let axis = 0;
+        for (let i = 1; i < 3; ++i) {
+            if (
+                centroidMax[i] - centroidMin[i] >
+                centroidMax[axis] - centroidMin[axis]
+            ) {
+                axis = i;
+            }
+        }
+        this._triangles
+            .subarray(first, first + count)
+            .sort(
+                (t0, t1) => centroids[t0 * 3 + axis] - centroids[t1 * 3 + axis]
+            );
+
+        const half = Math.floor(count / 2);
+        nodes.push(0, -1);
+        this.build(centroids, first, half, maxLeafSize, bounds, nodes);
+        nodes[node * 2] = nodes.length / 2;
+        this.build(
+            centroids,
+            first + half,
+            count - half,
+            maxLeafSize,
+            bounds,
+            nodes
+        );
+    }
+
+    /**
+     * Get the distance along a ray to a node's box (slab test).
+     * @returns The distance, or Infinity if the box is missed
+     */
+    private boxDistance(ray: Three.Ray, node: number): number {
+        let tMin = 0.0;
+        let tMax = Infinity;
+        for (let axis = 0; axis < 3; ++axis) {
+            const origin = ray.origin.getComponent(axis);
+            const inverse = 1.0 / ray.direction.getComponent(axis);
+            let t0 = (this._bounds[node * 6 + axis] - origin) * inverse;
+            let t1 = (this._bounds[node * 6 + 3 + axis] - origin) * inverse;
+            if (inverse < 0.0) {
+                [t0, t1] = [t1, t0];
+            }
+
+            // NaN, from a zero direction in a slab's plane, is ignored.
+            tMin = t0 > tMin ? t0 : tMin;
+            tMax = t1 < tMax ? t1 : tMax;
+            if (tMin > tMax) {
+                return Infinity;
+            }
+        }
+
+        return tMin;
+    }
+
+    private vertex(triangle: number, corner: number, target: Three.Vector3) {
+        const vertex = this._vertices[triangle * 3 + corner];
+        target.set(
+            this._positions.getX(vertex),
+            this._positions.getY(vertex),
+            this._positions.getZ(vertex)
+        );
+    }
+
+    private _positions:
+        Three.BufferAttribute | Three.InterleavedBufferAttribute;
+    private _vertices: Uint32Array;
+    private _triangles: Uint32Array;
+    private _bounds: Float32Array;
+    private _nodes: Int32Array;
+}
+
+/**
+ * An intersection with a BVH, in the geometry's space.
+ */
+export interface BvhIntersection {
+    point: Three.Vector3;
+    triangle: number;
+    a: number;
+    b: number;
+    c: number;
+    normal: Three.Vector3;
+}
+
+/**
+ * Build a BVH for a terrain mesh's geometry, and let the mesh's raycasts
+ * use it.
+ * @param mesh The mesh
+ */
+export function attachBvh(mesh: Three.Mesh): void {
+    mesh.geometry.userData.bvh = new TerrainBvh(mesh.geometry);
+    mesh.raycast = bvhRaycast;
+}
+
+/**
+ * Replacement for Mesh.raycast, using the geometry's BVH. Like the mesh's
+ * own raycast, intersections are in world space. Unlike it, hidden meshes
+ * are not hit, as tiles of overlapping levels of detail are only hidden.
+ */
+function bvhRaycast(
+    this: Three.Mesh,
+    raycaster: Three.Raycaster,
+    intersects: Three.Intersection[]
+): void {
+    if (!visibleInWorld(this)) {
+        return;
+    }
+
+    const bvh = this.geometry.userData.bvh as TerrainBvh;
+
+    // Raycast in the mesh's space. Only single front side materials cull
+    // back faces, as in Mesh.raycast.
+    const inverse = this.matrixWorld.clone().invert();
+    const ray = raycaster.ray.clone().applyMatrix4(inverse);
+    const backfaceCulling =
+        !Array.isArray(this.material) && this.material.side == Three.FrontSide;
+
+    const hit = bvh.intersectRay(ray, backfaceCulling);
+    if (!hit) {
+        return;
+    }
+
+    const point = hit.point.applyMatrix4(this.matrixWorld);
+    const distance = raycaster.ray.origin.distanceTo(point);
+    if (distance < raycaster.near || distance > raycaster.far) {
+        return;
+    }
+
+    intersects.push({
+        distance: distance,
+        point: point,
+        object: this,
+        face: {
+            a: hit.a,
+            b: hit.b,
+            c: hit.c,
+            normal: hit.normal,
+            materialIndex: 0,
+        },
+        faceIndex: hit.triangle,
+    });
+}
+
+/**
+ * Check that an object and all its ancestors are visible.
+ */
+function visibleInWorld(object: Three.Object3D): boolean {
+    for (
+        let current: Three.Object3D | null = object;
+        current;
+        current = current.parent
+    ) {
+        if (!current.visible) {
+            return false;
+        }
+    }
+
+    return true;
+}
@@ -0,0 +1,192 @@
+import * as Three from 'three';
+import { degToRad } from 'three/src/math/MathUtils';
+
+import { terrainLayer } from './app_util';
+import {
+    createDistanceMaterial,
+    renderDistanceMap,
+    unpackDistance,
+} from './distance_map';
+
+/**
+ * A picked terrain point, in world space (ECEF).
+ */
+export interface TerrainPick {
+    point: Three.Vector3;
+    normal: Three.Vector3;
+    distance: number;
+}
+
+/**
+ * Pick the terrain by raycasting. Only visible meshes in the terrain
+ * layer are tested, using their BVHs.
+ * @param raycaster The raycaster
+ * @param ndc The NDC coordinate within the drawing area
+ * @param camera The camera
+ * @param terrain The terrain
+ * @returns The pick, or undefined if the terrain is missed
+ */
+export function raycastTerrain(
+    raycaster: Three.Raycaster,
+    ndc: Three.Vector2,
+    camera: Three.Camera,
+    terrain: Three.Object3D
+): TerrainPick | undefined {
+    raycaster.layers.set(terrainLayer);
+    raycaster.setFromCamera(ndc, camera);
+    const intersects = raycaster.intersectObject(terrain, true);
+    if (intersects.length == 0 || !intersects[0].face) {
+        return undefined;
+    }
+
+    const intersect = intersects[0];
+    const normal = (intersect.face as Three.Face).normal
+        .clone()
+        .transformDirection(intersect.object.matrixWorld);
+
+    return {
+        point: intersect.point,
+        normal: normal,
+        distance: intersect.distance,
+    };
+}
+
+/**
+ * Pick the terrain from the GPU's view of it. A narrow camera along the
+ * picking ray renders a tiny distance map of the terrain, which is read
+ * back. The cost does not depend on the number of triangles, but the
+ * pick is only as exact as the rendered pixels.
+ */
+export class DepthPicker {
+    public constructor() {
+        this._target = new Three.WebGLRenderTarget(
+            DepthPicker.size,
+            DepthPicker.size,
+            {
+                minFilter: Three.NearestFilter,
+                magFilter: Three.NearestFilter,
+                generateMipmaps: false,
+            }
+        );
+        this._material = createDistanceMaterial();
+        this._camera.layers.set(terrainLayer);
+    }
+
+    /**
+     * Pick the terrain.
+     * @param renderer The renderer
+     * @param ndc The NDC coordinate within the drawing area
+     * @param camera The camera
+     * @param terrain The terrain
+     * @param drawingHeight Height of the drawing area in pixels
+     * @returns The pick, or undefined if the terrain is missed
+     */
+    public pick(
+        renderer: Three.WebGLRenderer,
+        ndc: Three.Vector2,
+        camera: Three.PerspectiveCamera,
+        terrain: Three.Object3D,
+        drawingHeight: number
+    ): TerrainPick | undefined {
+        // Aim the picking camera along the ray, covering a few pixels of
+        // the camera's view.
+        this._raycaster.setFromCamera(ndc, camera);
+        const ray = this._raycaster.ray;
+        const up = camera.up.clone().applyQuaternion(camera.quaternion);
+
+        this._camera.fov = (DepthPicker.size * camera.fov) / drawingHeight;
+        this._camera.near = camera.near;
+        this._camera.far = camera.far;
+        this._camera.position.copy(ray.origin);
+        this._camera.up.copy(up);
+        this._camera.lookAt(ray.origin.clone().add(ray.direction));
+        this._camera.updateMatrixWorld();
+        this._camera.updateProjectionMatrix();
+
+        renderDistanceMap(
+            renderer,
+            this._target,
+            terrain,
+            this._camera,
+            this._material
+        );
+        renderer.readRenderTargetPixels(
+            this._target,
+            0,
+            0,
+            DepthPicker.size,
+            DepthPicker.size,
+            this._pixels
+        );
+
+        const center = Math.floor(DepthPicker.size / 2);
+        const point = this.point(center, center);
+        if (!point) {
+            return undefined;
+        }
+
+        // The normal from the neighbouring points, facing the camera.
+        const normal = ray.direction.clone().negate();
+        const left = this.point(center - 1, center);
+        const right = this.point(center + 1, center);
+        const below = this.point(center, center - 1);
+        const above = this.point(center, center + 1);
+        if (left && right && below && above) {
+            const cross = right.sub(left).cross(above.sub(below)).normalize();
+            if (cross.lengthSq() > 0.0) {
+                normal.copy(cross);
+                if (normal.dot(ray.direction) > 0.0) {
+                    normal.negate();
+                }
+            }
+        }
+
+        return {
+            point: point,
+            normal: normal,
+            distance: point.distanceTo(ray.origin),
+        };
+    }
+
+    /**
+     * Release the GPU resources.
+     */
+    public dispose(): void {
+        this._target.dispose();
+        this._material.dispose();
+    }
+
+    /**
+     * Get the world position for a pixel in the distance map.
+     * @returns The position, or undefined if there is no terrain
+     */
+    private point(x: number, y: number): Three.Vector3 | undefined {
+        const distance = unpackDistance(
+            this._pixels,
+            (y * DepthPicker.size + x) * 4
+        );
+        if (distance === undefined) {
+            return undefined;
+        }
+
+        // The direction through the pixel's center, in camera space.
+        const tanHalfFov = Math.tan(degToRad(this._camera.fov) / 2.0);
+        const direction = new Three.Vector3(
+            (((x + 0.5) / DepthPicker.size) * 2.0 - 1.0) * tanHalfFov,
+            (((y + 0.5) / DepthPicker.size) * 2.0 - 1.0) * tanHalfFov,
+            -1.0
+        ).normalize();
+
+        return direction
+            .multiplyScalar(distance * this._camera.far)
+            .applyMatrix4(this._camera.matrixWorld);
+    }
+
+    private static readonly size = 3;
+
+    private _target: Three.WebGLRenderTarget;
+    private _material: Three.ShaderMaterial;
+    private _camera = new Three.PerspectiveCamera();
+    private _raycaster = new Three.Raycaster();
+    private _pixels = new Uint8Array(DepthPicker.size * DepthPicker.size * 4);
+}
@@ -0,0 +1,389 @@
+import * as Three from 'three';
+import { fromArrayBuffer } from 'geotiff';
+
+import {
+    EcefConverter,
+    fetchArrayBuffer,
+    fetchCollada,
+    fetchGltf,
+    fetchRewriteAndLoadColladaTerrainTiles,
+    fetchText,
+    rewriteUTMTerrainModel,
+    terrainLayer,
+} from './app_util';
+import { attachBvh } from './terrain_bvh';
+
+/**
+ * A source of terrain. Whatever the source, the terrain is loaded as
+ * ECEF groups with their vertices relative to the group's position (see
+ * rewriteUTMTerrainModel), together with their bounding box.
+ */
+export interface TerrainSource {
+    load(): Promise<[Three.Box3, Three.Group[]]>;
+}
+
+/**
+ * Terrain from Collada tiles.
+ */
+export class ColladaTerrainSource implements TerrainSource {
+    /**
+     * Create a new source.
+     * @param urls Urls to models
+     * @param csConv Converter from the models' CRS to ECEF
+     */
+    public constructor(urls: string[], csConv: EcefConverter) {
+        this._urls = urls;
+        this._csConv = csConv;
+    }
+
+    public load(): Promise<[Three.Box3, Three.Group[]]> {
+        return fetchRewriteAndLoadColladaTerrainTiles(this._urls, this._csConv);
+    }
+
+    private _urls: string[];
+    private _csConv: EcefConverter;
+}
+
+/**
+ * Terrain from glTF or GLB tiles, in their CRS with y up.
+ */
+export class GltfTerrainSource implements TerrainSource {
+    /**
+     * Create a new source.
+     * @param urls Urls to models
+     * @param csConv Converter from the models' CRS to ECEF
+     */
+    public constructor(urls: string[], csConv: EcefConverter) {
+        this._urls = urls;
+        this._csConv = csConv;
+    }
+
+    public async load(): Promise<[Three.Box3, Three.Group[]]> {
+        const groups = await Promise.all(
+            this._urls.map((url) => fetchGltfTerrain(url, this._csConv))
+        );
+
+        return [boundingBox(groups), groups];
+    }
+
+    private _urls: string[];
+    private _csConv: EcefConverter;
+}
+
+/**
+ * A grid of elevations in a projected CRS. Rows are stored from north to
+ * south, and within a row from west to east. The positions are those of
+ * the cell centers.
+ */
+export interface ElevationGrid {
+    columns: number;
+    rows: number;
+    /** Position of the north-west cell's center. */
+    originX: number;
+    originY: number;
+    cellWidth: number;
+    cellHeight: number;
+    heights: Float32Array;
+    noData?: number;
+}
+
+/**
+ * Options for terrain from elevation grids.
+ */
+export interface DemOptions {
+    /** Material for the terrain, a default shaded material if not given. */
+    material?: Three.Material;
+    /** Take every n:th elevation, to reduce the size of large grids. */
+    stride: number;
+    /** Maximum number of cells along a side of a created mesh. */
+    chunkSize: number;
+}
+
+/**
+ * Default DEM options.
+ */
+export const defaultDemOptions: DemOptions = {
+    stride: 1,
+    chunkSize: 256,
+};
+
+/**
+ * Terrain from a gridded elevation model, a GeoTIFF (.tif, .tiff) or an
+ * ESRI ASCII grid (.asc). The grid is triangulated into chunks of ECEF
+ * meshes, leaving holes for cells without data.
+ */
+export class DemTerrainSource implements TerrainSource {
+    /**
+     * Create a new source.
+     * @param url Url to the elevation model
+     * @param csConv Converter from the grid's CRS to ECEF
+     * @param options Options
+     */
+    public constructor(
+        url: string,
+        csConv: EcefConverter,
+        options: DemOptions = defaultDemOptions
+    ) {
+        this._url = url;
+        this._csConv = csConv;
+        this._options = options;
+    }
+
+    public async load(): Promise<[Three.Box3, Three.Group[]]> {
+        const grid = /\.tiff?$/i.test(this._url)
+            ? await parseGeoTiffGrid(await fetchArrayBuffer(this._url))
+            : parseAsciiGrid(await fetchText(this._url));
+        const groups = triangulateGrid(grid, this._csConv, this._options);
+
+        return [boundingBox(groups), groups];
+    }
+
+    private _url: string;
+    private _csConv: EcefConverter;
+    private _options: DemOptions;
+}
+
+/**
+ * Async fetch of a terrain tile, as Collada or glTF by the URL's file
+ * extension.
+ * @param url The tile URL
+ * @param csConv Converter from the tile's CRS to ECEF
+ * @returns Promise carrying the tile
+ */
+export async function fetchTerrainTile(
+    url: string,
+    csConv: EcefConverter
+): Promise<Three.Group> {
+    if (/\.(gltf|glb)$/i.test(url)) {
+        return fetchGltfTerrain(url, csConv);
+    }
+
+    return rewriteUTMTerrainModel(await fetchCollada(url), csConv);
+}
+
+/**
+ * Parse an ESRI ASCII grid.
+ * @param text The grid file
+ * @returns The elevation grid
+ */
+export function parseAsciiGrid(text: string): ElevationGrid {
+    const lines = text.split(/\r?\n/);
+    const header: { [key: string]: number } = {};
+
+    // The header is a number of key value lines.
+    let line = 0;
+    for (; line < lines.length; ++line) {
+        const match = lines[line].trim().match(/^([a-zA-Z_]+)\s+(\S+)$/);
+        if (!match) {
+            break;
+        }
+        header[match[1].toLowerCase()] = Number(match[2]);
+    }
+
+    const columns = header['ncols'];
+    const rows = header['nrows'];
+    const cellSize = header['cellsize'];
+    if (!columns || !rows || !cellSize) {
+        throw new Error('Malformed ASCII grid header');
+    }
+
+    // The lower left position is either a corner or a center.
+    const left =
+        header['xllcenter'] !== undefined
+            ? header['xllcenter']
+            : header['xllcorner'] + cellSize / 2.0;
+    const bottom =
+        header['yllcenter'] !== undefined
+            ? header['yllcenter']
+            : header['yllcorner'] + cellSize / 2.0;
+
+    const values = lines.slice(line).join(' ').trim().split(/\s+/);
+    if (values.length < columns * rows) {
+        throw new Error(
+            `ASCII grid has ${values.length} values, expected ${columns * rows}`
+        );
+    }
+
+    return {
+        columns: columns,
+        rows: rows,
+        originX: left,
+        originY: bottom + (rows - 1) * cellSize,
+        cellWidth: cellSize,
+        cellHeight: cellSize,
+        heights: new Float32Array(values.slice(0, columns * rows).map(Number)),
+        noData: header['nodata_value'],
+    };
+}
+
+/**
+ * Parse the first band of a GeoTIFF.
+ * @param data The GeoTIFF file
+ * @returns Promise carrying the elevation grid
+ */
+export async function parseGeoTiffGrid(
+    data: ArrayBuffer
+): Promise<ElevationGrid> {
+    const tiff = await fromArrayBuffer(data);
+    const image = await tiff.getImage();
+    const rasters = await image.readRasters({ samples: [0] });
+    const band = (rasters as unknown as ArrayLike<number>[])[0];
+
+    const [left, , , top] = image.getBoundingBox();
+    const [cellWidth, cellHeight] = image.getResolution();
+    const noData = image.getGDALNoData();
+
+    return {
+        columns: image.getWidth(),
+        rows: image.getHeight(),
+        originX: left + cellWidth / 2.0,
+        originY: top - Math.abs(cellHeight) / 2.0,
+        cellWidth: cellWidth,
+        cellHeight: Math.abs(cellHeight),
+        heights: Float32Array.from(band),
+        noData: noData === null ? undefined : noData,
+    };
+}
+
+/**
+ * Triangulate an elevation grid into ECEF meshes.
+ * @param grid The elevation grid
+ * @param csConv Converter from the grid's CRS to ECEF
+ * @param options Options
+ * @returns One group per chunk of the grid
+ */
+export function triangulateGrid(
+    grid: ElevationGrid,
+    csConv: EcefConverter,
+    options: DemOptions = defaultDemOptions
+): Three.Group[] {
+    const material =
+        options.material || new Three.MeshLambertMaterial({ color: 0xc8b89a });
+    const stride = Math.max(Math.floor(options.stride), 1);
+    const columns = Math.floor((grid.columns - 1) / stride) + 1;
+    const rows = Math.floor((grid.rows - 1) / stride) + 1;
+    const chunk = Math.max(Math.floor(options.chunkSize), 1);
+
+    const groups: Three.Group[] = [];
+    for (let row0 = 0; row0 < rows - 1; row0 += chunk) {
+        for (let column0 = 0; column0 < columns - 1; column0 += chunk) {
+            const group = triangulateChunk(
+                grid,
+                csConv,
+                stride,
+                column0,
+                row0,
+                Math.min(column0 + chunk, columns - 1),
+                Math.min(row0 + chunk, rows - 1)
+            );
+            if (group) {
+                group.children.forEach(
+                    (mesh) => ((mesh as Three.Mesh).material = material)
+                );
+                groups.push(group);
+            }
+        }
+    }
+
+    return groups;
+}
+
+/**
+ * Triangulate the part of a grid between the (strided) columns and rows.
+ * @returns The group, or undefined if the chunk has no data
+ */
+function triangulateChunk(
+    grid: ElevationGrid,
+    csConv: EcefConverter,
+    stride: number,
+    column0: number,
+    row0: number,
+    column1: number,
+    row1: number
+): Three.Group | undefined {
+    const width = column1 - column0 + 1;
+    const height = row1 - row0 + 1;
+
+    // Convert the grid points with data to ECEF, in double precision, and
+    // number them as vertices. Points without data get no vertex.
+    const ecef = new Float64Array(width * height * 3);
+    const vertices = new Int32Array(width * height).fill(-1);
+    let vertexCount = 0;
+    const box = new Three.Box3();
+    for (let j = 0; j < height; ++j) {
+        for (let i = 0; i < width; ++i) {
+            const column = (column0 + i) * stride;
+            const row = (row0 + j) * stride;
+            const z = grid.heights[row * grid.columns + column];
+            if (!isFinite(z) || z === grid.noData) {
+                continue;
+            }
+
+            const [x, y, zz] = csConv.forward([
+                grid.originX + column * grid.cellWidth,
+                grid.originY - row * grid.cellHeight,
+                z,
+            ]);
+            ecef.set([x, y, zz], vertexCount * 3);
+            vertices[j * width + i] = vertexCount++;
+            box.expandByPoint(new Three.Vector3(x, y, zz));
+        }
+    }
+
+    // Two triangles per cell with data in all four corners.
+    const indices: number[] = [];
+    for (let j = 0; j < height - 1; ++j) {
+        for (let i = 0; i < width - 1; ++i) {
+            const nw = vertices[j * width + i];
+            const ne = vertices[j * width + i + 1];
+            const sw = vertices[(j + 1) * width + i];
+            const se = vertices[(j + 1) * width + i + 1];
+            if (nw >= 0 && ne >= 0 && sw >= 0 && se >= 0) {
+                indices.push(nw, sw, ne, ne, sw, se);
+            }
+        }
+    }
+
+    if (indices.length == 0) {
+        return undefined;
+    }
+
+    // Store the positions relative to the chunk's center.
+    const origin = box.getCenter(new Three.Vector3());
+    const positions = new Float32Array(vertexCount * 3);
+    for (let i = 0; i < vertexCount; ++i) {
+        positions[i * 3] = ecef[i * 3] - origin.x;
+        positions[i * 3 + 1] = ecef[i * 3 + 1] - origin.y;
+        positions[i * 3 + 2] = ecef[i * 3 + 2] - origin.z;
+    }
+
+    const geometry = new Three.BufferGeometry();
+    geometry.setAttribute('position', new Three.BufferAttribute(positions, 3));
+    geometry.setIndex(indices);
+    geometry.computeVertexNormals();
+    geometry.computeBoundingBox();
+
+    const mesh = new Three.Mesh(geometry);
+    mesh.layers.enable(terrainLayer);
+    attachBvh(mesh);
+
+    const group = new Three.Group();
+    group.position.copy(origin);
+    group.add(mesh);
+
+    return group;
+}
+
+async function fetchGltfTerrain(
+    url: string,
+    csConv: EcefConverter
+): Promise<Three.Group> {
+    return rewriteUTMTerrainModel(await fetchGltf(url), csConv, undefined, 'y');
+}
+
+function boundingBox(groups: Three.Group[]): Three.Box3 {
+    const box = new Three.Box3();
+    groups.forEach((group) => box.expandByObject(group));
+
+    return box;
+}
@@ -0,0 +1,548 @@
+import * as Three from 'three';
+import { degToRad } from 'three/src/math/MathUtils';
+
+import { EcefConverter } from './app_util';
+import { TerrainBvh } from './terrain_bvh';
+
+/**
+ * A z/x/y quadtree tiling scheme over a projected CRS. At level z the
+ * tiles are level0Size / 2^z wide and high, and tile (x, y) has its
+ * corner at origin + (x, y) * size. With yDown the y axis grows south.
+ */
+export interface TilingScheme {
+    /** Tile URL with the placeholders {z}, {x} and {y}. */
+    urlTemplate: string;
+    originX: number;
+    originY: number;
+    level0Size: number;
+    yDown: boolean;
+    minLevel: number;
+    maxLevel: number;
+    /** Height range of the terrain, for the tiles' bounding volumes. */
+    minHeight: number;
+    maxHeight: number;
+    /** Area covered by tiles in CRS coordinates: [minX, minY, maxX, maxY]. */
+    extent: [number, number, number, number];
+}
+
+/**
+ * Options for the tile manager.
+ */
+export interface TileManagerOptions {
+    /** A tile is refined when it would cover more pixels than this. */
+    maxTilePixels: number;
+    /** Maximum number of tiles being loaded at the same time. */
+    maxConcurrentLoads: number;
+    /** Budget in bytes for loaded geometry, least recently used tiles are
+     * evicted when exceeded. */
+    memoryBudget: number;
+}
+
+/**
+ * Default tile manager options.
+ */
+export const defaultTileManagerOptions: TileManagerOptions = {
+    maxTilePixels: 512,
+    maxConcurrentLoads: 4,
+    memoryBudget: 256 * 1024 * 1024,
+};
+
+/**
+ * Loader of the terrain for a tile URL.
+ */
+export type TileLoader = (url: string) => Promise<Three.Group>;
+
+type TileState = 'unloaded' | 'loading' | 'loaded' | 'failed';
+
+interface Tile {
+    level: number;
+    x: number;
+    y: number;
+    box: Three.Box3;
+    state: TileState;
+    group?: Three.Group;
+    bytes: number;
+    lastUsed: number;
+}
+
+/**
+ * Streaming of quadtree terrain tiles. For every update the tiles
+ * visible in the camera's frustum are selected at a level of detail
+ * suitable for their distance. Missing tiles are loaded in the
+ * background, and a tile's parent is shown until all its children are
+ * loaded.
+ */
+export class TileManager {
+    /**
+     * Create a new tile manager.
+     * @param scheme The tiling scheme
+     * @param csConv Converter from the scheme's CRS to ECEF
+     * @param loader Loader of tiles
+     * @param options Options
+     */
+    public constructor(
+        scheme: TilingScheme,
+        csConv: EcefConverter,
+        loader: TileLoader,
+        options: TileManagerOptions = defaultTileManagerOptions
+    ) {
+        this._scheme = scheme;
+        this._csConv = csConv;
+        this._loader = loader;
+        this._options = options;
+        this._root = new Three.Group();
+        this._root.name = 'terrain-tiles';
+    }
+
+    /**
+     * Get the root object, which the loaded tiles are added to.
+     * @returns The root object
+     */
+    public root(): Three.Group {
+        return this._root;
+    }
+
+    /**
+     * Get the currently loaded tiles.
+     * @returns The tiles' groups
+     */
+    public loadedTiles(): Three.Group[] {
+        const groups: Three.Group[] = [];
+        this._tiles.forEach((tile) => {
+            if (tile.group) {
+                groups.push(tile.group);
+            }
+        });
+
+        return groups;
+    }
+
+    /**
+     * Get the bounding box of the currently loaded tiles.
+     * @returns The bounding box
+     */
+    public loadedBox(): Three.Box3 {
+        const box = new Three.Box3();
+        this.loadedTiles().forEach((group) => box.expandByObject(group));
+
+        return box;
+    }
+
+    /**
+     * Take the extents of the tiles shown or hidden since the last call,
+     * i.e. where the shown terrain surface has changed.
+     * @returns The tiles' bounding boxes, in ECEF
+     */
+    public takeChangedExtents(): Three.Box3[] {
+        const extents = this._changedExtents;
+        this._changedExtents = [];
+
+        return extents;
+    }
+
+    /**
+     * Select, load and evict tiles for the camera's current view. To be
+     * called before each rendering.
+     * @param camera The camera
+     * @param viewportHeight Height of the viewport in pixels
+     */
+    public update(
+        camera: Three.PerspectiveCamera,
+        viewportHeight: number
+    ): void {
+        ++this._frame;
+
+        camera.updateMatrixWorld();
+        const frustum = new Three.Frustum().setFromProjectionMatrix(
+            new Three.Matrix4().multiplyMatrices(
+                camera.projectionMatrix,
+                camera.matrixWorldInverse
+            )
+        );
+        const pixelsPerRadian =
+            viewportHeight / (2.0 * Math.tan(degToRad(camera.fov) / 2.0));
+
+        // Select the tiles to show.
+        const selected: Tile[] = [];
+        const wanted: Tile[] = [];
+        this.rootTiles().forEach((tile) =>
+            this.select(
+                tile,
+                frustum,
+                camera.position,
+                pixelsPerRadian,
+                selected,
+                wanted
+            )
+        );
+
+        const shown = new Set(selected);
+        this._tiles.forEach((tile) => {
+            const visible = shown.has(tile);
+            if (tile.group && tile.group.visible != visible) {
+                tile.group.visible = visible;
+                this._changedExtents.push(tile.box);
+            }
+        });
+        selected.forEach((tile) => {
+            tile.lastUsed = this._frame;
+        });
+
+        // Load wanted tiles, coarse and near first.
+        wanted
+            .filter((tile) => tile.state == 'unloaded')
+            .sort(
+                (a, b) =>
+                    a.level - b.level ||
+                    a.box.distanceToPoint(camera.position) -
+                        b.box.distanceToPoint(camera.position)
+            )
+            .slice(
+                0,
+                Math.max(this._options.maxConcurrentLoads - this._loading, 0)
+            )
+            .forEach((tile) => this.load(tile));
+
+        this.evict();
+    }
+
+    /**
+     * Remove all tiles and release their resources.
+     */
+    public dispose(): void {
+        this._tiles.forEach((tile) => this.unload(tile));
+        this._tiles.clear();
+        this._loading = 0;
+        ++this._generation;
+    }
+
+    /**
+     * Recursively select tiles to show, and the tiles wanted for it.
+     */
+    private select(
+        tile: Tile,
+        frustum: Three.Frustum,
+        eye: Three.Vector3,
+        pixelsPerRadian: number,
+        selected: Tile[],
+        wanted: Tile[]
+    ): void {
+        if (!frustum.intersectsBox(tile.box)) {
+            return;
+        }
+        tile.lastUsed = this._frame;
+
+        const distance = Math.max(tile.box.distanceToPoint(eye), 1.0);
+        const pixels = (this.tileSize(tile.level) / distance) * pixelsPerRadian;
+        if (pixels > this._options.maxTilePixels && this.canRefine(tile)) {
+            const children = this.children(tile).filter((child) =>
+                frustum.intersectsBox(child.box)
+            );
+            children.forEach((child) => {
+                child.lastUsed = this._frame;
+            });
+
+            // A failed child would leave a hole, so the tile is kept and
+            // not refined when any of its children failed.
+            const refinable = children.every(
+                (child) => child.state != 'failed'
+            );
+            if (refinable) {
+                children.forEach((child) => wanted.push(child));
+            }
+
+            const ready =
+                refinable &&
+                children.length > 0 &&
+                children.every((child) => child.state == 'loaded');
+            if (ready) {
+                children.forEach((child) =>
+                    this.select(
+                        child,
+                        frustum,
+                        eye,
+                        pixelsPerRadian,
+                        selected,
+                        wanted
+                    )
+                );
+                return;
+            }
+        }
+
+        if (tile.state == 'loaded') {
+            selected.push(tile);
+        } else if (tile.state != 'failed') {
+            wanted.push(tile);
+        }
+    }
+
+    private canRefine(tile: Tile): boolean {
+        return tile.level < this._scheme.maxLevel && tile.state != 'failed';
+    }
+
+    private load(tile: Tile): void {
+        tile.state = 'loading';
+        ++this._loading;
+        const generation = this._generation;
+
+        this._loader(this.tileUrl(tile))
+            .then((group) => {
+                if (generation != this._generation) {
+                    // Disposed meanwhile.
+                    disposeObject(group);
+                    return;
+                }
+
+                --this._loading;
+                tile.group = group;
+                tile.bytes = byteSize(group);
+                tile.state = 'loaded';
+                group.visible = false;
+                this._root.add(group);
+            })
+            .catch(() => {
+                if (generation == this._generation) {
+                    --this._loading;
+                    tile.state = 'failed';
+                }
+            });
+    }
+
+    private unload(tile: Tile): void {
+        if (tile.group) {
+            tile.group.removeFromParent();
+            disposeObject(tile.group);
+        }
+
+        tile.group = undefined;
+        tile.bytes = 0;
+        tile.state = 'unloaded';
+    }
+
+    /**
+     * Evict least recently used tiles until within the memory budget.
+     * Tiles used in the current frame are kept.
+     */
+    private evict(): void {
+        let total = 0;
+        const candidates: Tile[] = [];
+        this._tiles.forEach((tile) => {
+            total += tile.bytes;
+            if (tile.state == 'loaded' && tile.lastUsed < this._frame) {
+                candidates.push(tile);
+            }
+        });
+
+        candidates.sort((a, b) => a.lastUsed - b.lastUsed);
+        for (
+            let i = 0;
+            i < candidates.length && total > this._options.memoryBudget;
+            ++i
+        ) {
+            total -= candidates[i].bytes;
+            this.unload(candidates[i]);
+        }
+    }
+
+    private rootTiles(): Tile[] {
+        const level = this._scheme.minLevel;
+        const size = this.tileSize(level);
+        const [minX, minY, maxX, maxY] = this._scheme.extent;
+
+        const x0 = Math.floor((minX - this._scheme.originX) / size);
+        const x1 = Math.ceil((maxX - this._scheme.originX) / size) - 1;
+        const [y0, y1] = this._scheme.yDown
+            ? [
+                  Math.floor((this._scheme.originY - maxY) / size),
+                  Math.ceil((this._scheme.originY - minY) / size) - 1,
+              ]
+            : [
+                  Math.floor((minY - this._scheme.originY) / size),
+                  Math.ceil((maxY - this._scheme.originY) / size) - 1,
+              ];
+
+        const tiles: Tile[] = [];
+        for (let x = x0; x <= x1; ++x) {
+            for (let y = y0; y <= y1; ++y) {
+                tiles.push(this.tile(level, x, y));
+            }
+        }
+
+        return tiles;
+    }
+
+    private children(tile: Tile): Tile[] {
+        const children: Tile[] = [];
+        for (let dx = 0; dx < 2; ++dx) {
+            for (let dy = 0; dy < 2; ++dy) {
+                const x = tile.x * 2 + dx;
+                const y = tile.y * 2 + dy;
+                if (this.withinExtent(tile.level + 1, x, y)) {
+                    children.push(this.tile(tile.level + 1, x, y));
+                }
+            }
+        }
+
+        return children;
+    }
+
+    /**
+     * Get a tile record, creating it if not seen before.
+     */
+    private tile(level: number, x: number, y: number): Tile {
+        const key = `${level}/${x}/${y}`;
+        let tile = this._tiles.get(key);
+        if (tile === undefined) {
+            tile = {
+                level: level,
+                x: x,
+                y: y,
+                box: this.tileBox(level, x, y),
+                state: 'unloaded',
+                bytes: 0,
+                lastUsed: 0,
+            };
+            this._tiles.set(key, tile);
+        }
+
+        return tile;
+    }
+
+    private tileSize(level: number): number {
+        return this._scheme.level0Size / Math.pow(2, level);
+    }
+
+    /**
+     * Get a tile's extent in CRS coordinates: [minX, minY, maxX, maxY].
+     */
+    private tileExtent(
+        level: number,
+        x: number,
+        y: number
+    ): [number, number, number, number] {
+        const size = this.tileSize(level);
+        const minX = this._scheme.originX + x * size;
+        const minY = this._scheme.yDown
+            ? this._scheme.originY - (y + 1) * size
+            : this._scheme.originY + y * size;
+
+        return [minX, minY, minX + size, minY + size];
+    }
+
+    private withinExtent(level: number, x: number, y: number): boolean {
+        const [minX, minY, maxX, maxY] = this.tileExtent(level, x, y);
+        const extent = this._scheme.extent;
+
+        return (
+            minX < extent[2] &&
+            maxX > extent[0] &&
+            minY < extent[3] &&
+            maxY > extent[1]
+        );
+    }
+
+    /**
+     * Compute a tile's ECEF bounding box. Samples a grid over the tile at
+     * the minimum and maximum heights, to include the Earth's curvature.
+     */
+    private tileBox(level: number, x: number, y: number): Three.Box3 {
+        const [minX, minY, maxX, maxY] = this.tileExtent(level, x, y);
+        const box = new Three.Box3();
+
+        for (let i = 0; i <= 2; ++i) {
+            for (let j = 0; j <= 2; ++j) {
+                const px = minX + ((maxX - minX) * i) / 2.0;
+                const py = minY + ((maxY - minY) * j) / 2.0;
+                [this._scheme.minHeight, this._scheme.maxHeight].forEach(
+                    (height) => {
+                        const [ex, ey, ez] = this._csConv.forward([
+                            px,
+                            py,
+                            height,
+                        ]);
+                        box.expandByPoint(new Three.Vector3(ex, ey, ez));
+                    }
+                );
+            }
+        }
+
+        return box;
+    }
+
+    private tileUrl(tile: Tile): string {
+        return this._scheme.urlTemplate
+            .replace(/\{z\}/g, `${tile.level}`)
+            .replace(/\{x\}/g, `${tile.x}`)
+            .replace(/\{y\}/g, `${tile.y}`);
+    }
+
+    private _scheme: TilingScheme;
+    private _csConv: EcefConverter;
+    private _loader: TileLoader;
+    private _options: TileManagerOptions;
+    private _root: Three.Group;
+    private _tiles = new Map<string, Tile>();
+    private _loading = 0;
+    /** Count of disposals, to drop tiles loaded for a disposed manager. */
+    private _generation = 0;
+    private _frame = 0;
+    private _changedExtents: Three.Box3[] = [];
+}
+
+/**
+ * Compute the size in bytes of the geometry in an object.
+ * @param object The object
+ * @returns The size in bytes
+ */
+function byteSize(object: Three.Object3D): number {
+    let bytes = 0;
+    object.traverse((child) => {
+        if (child instanceof Three.Mesh) {
+            const geometry = (child as Three.Mesh).geometry;
+            Object.keys(geometry.attributes).forEach((name) => {
+                const attribute = geometry.getAttribute(name);
+                if (attribute instanceof Three.BufferAttribute) {
+                    bytes += (attribute.array as Float32Array).byteLength;
+                }
+            });
+            if (geometry.index) {
+                bytes += (geometry.index.array as Uint32Array).byteLength;
+            }
+            if (geometry.userData.bvh instanceof TerrainBvh) {
+                bytes += geometry.userData.bvh.byteLength();
+            }
+        }
+    });
+
+    return bytes;
+}
+
+/**
+ * Dispose the geometries, materials and textures in an object.
+ * @param object The object
+ */
+function disposeObject(object: Three.Object3D): void {
+    object.traverse((child) => {
+        if (child instanceof Three.Mesh) {
+            const mesh = child as Three.Mesh;
+            mesh.geometry.dispose();
+
+            const materials = Array.isArray(mesh.material)
+                ? mesh.material
+                : [mesh.material];
+            materials.forEach((material) => {
+                const properties = material as unknown as {
+                    [key: string]: unknown;
+                };
+                Object.keys(properties).forEach((key) => {
+                    const value = properties[key];
+                    if (value instanceof Three.Texture) {
+                        value.dispose();
+                    }
+                });
+                material.dispose();
+            });
+        }
+    });
+}
@@ -0,0 +1,360 @@
+import { CameraMetadata } from './app_util';
+import { GeoJson } from './geojson';
+import { LensCalibration } from './lens_calibration';
+import { MetadataSample } from './metadata_track';
+
+/**
+ * Failure to load content from a URL, e.g. a network error, an HTTP error
+ * status or invalid content.
+ */
+export class LoadError extends Error {
+    /**
+     * Create a new error.
+     * @param url The URL of the content
+     * @param reason What went wrong
+     * @param cause The underlying error, if any
+     */
+    public constructor(url: string, reason: string, cause?: unknown) {
+        super(
+            `Failed to load ${url}: ${reason}` +
+                (cause !== undefined ? ` (${describeError(cause)})` : '')
+        );
+        this.name = 'LoadError';
+        this.url = url;
+        this.cause = cause;
+    }
+
+    public readonly url: string;
+    public readonly cause: unknown;
+}
+
+/**
+ * Content that does not have the expected structure or values. The path
+ * tells where in the content, e.g. 'samples[3].metadata.hfov'.
+ */
+export class ValidationError extends Error {
+    /**
+     * Create a new error.
+     * @param path Path to the invalid value
+     * @param reason What is wrong with it
+     */
+    public constructor(path: string, reason: string) {
+        super(`${path} ${reason}`);
+        this.name = 'ValidationError';
+        this.path = path;
+    }
+
+    public readonly path: string;
+}
+
+/**
+ * Receiver of the outcome of loading an item of content, with the error
+ * if it failed.
+ */
+export type LoadReport = (item: string, error?: unknown) => void;
+
+/**
+ * A load report that warns on the console about failures.
+ */
+export const warnOnFailure: LoadReport = (item, error) => {
+    if (error !== undefined) {
+        console.warn(`${item}: ${describeError(error)}`);
+    }
+};
+
+/**
+ * Get a readable description of a thrown value.
+ * @param error The thrown value
+ * @returns The description
+ */
+export function describeError(error: unknown): string {
+    if (error instanceof Error) {
+        return error.message;
+    } else if (typeof Event != 'undefined' && error instanceof Event) {
+        return `${error.type} event`;
+    }
+
+    return `${error}`;
+}
+
+/**
+ * Check that a value is an object (but not an array).
+ * @param value The value
+ * @param path Path to the value, for errors
+ * @returns The object
+ */
+export function expectObject(
+    value: unknown,
+    path: string
+): { [key: string]: unknown } {
+    if (typeof value != 'object' || value === null || Array.isArray(value)) {
+        throw new ValidationError(path, 'is not an object');
+    }
+
+    return value as { [key: string]: unknown };
+}
+
+/**
+ * Check that a value is an array.
+ * @param value The value
+ * @param path Path to the value, for errors
+ * @returns The array
+ */
+export function expectArray(value: unknown, path: string): unknown[] {
+    if (!Array.isArray(value)) {
+        throw new ValidationError(path, 'is not an array');
+    }
+
+    return value;
+}
+
+/**
+ * Check that a value is a non-empty string.
+ * @param value The value
+ * @param path Path to the value, for errors
+ * @returns The string
+ */
+export function expectString(value: unknown, path: string): string {
+    if (typeof value != 'string' || value.length == 0) {
+        throw new ValidationError(path, 'is not a non-empty string');
+    }
+
+    return value;
+}
+
+/**
+ * Check that a value is a boolean.
+ * @param value The value
+ * @param path Path to the value, for errors
+ * @returns The boolean
+ */
+export function expectBoolean(value: unknown, path: string): boolean {
+    if (typeof value != 'boolean') {
+        throw new ValidationError(path, `is ${value}, not a boolean`);
+    }
+
+    return value;
+}
+
+/**
+ * Check that a value is a finite number, optionally within a range.
+ * @param value The value
+ * @param path Path to the value, for errors
+ * @param min Smallest allowed value
+ * @param max Largest allowed value
+ * @returns The number
+ */
+export function expectNumber(
+    value: unknown,
+    path: string,
+    min: number = -Infinity,
+    max: number = Infinity
+): number {
+    if (typeof value != 'number' || !isFinite(value)) {
+        throw new ValidationError(path, `is ${value}, not a finite number`);
+    } else if (value < min || value > max) {
+        throw new ValidationError(path, `is ${value}, not in [${min}, ${max}]`);
+    }
+
+    return value;
+}
+
+/**
+ * Validate camera metadata, in ECEF or geodetic form. Positions and
+ * angles must be finite, and the field of view in (0, 180) degrees.
+ * @param value The value
+ * @param path Path to the value, for errors
+ * @returns The metadata
+ */
+export function validateMetadata(
+    value: unknown,
+    path: string = 'metadata'
+): CameraMetadata {
+    const metadata = expectObject(value, path);
+
+    if ('latitude' in metadata || 'longitude' in metadata) {
+        expectNumber(metadata.latitude, `${path}.latitude`, -90.0, 90.0);
+        expectNumber(metadata.longitude, `${path}.longitude`, -180.0, 360.0);
+        expectNumber(metadata.height, `${path}.height`);
+    } else {
+        ['x', 'y', 'z'].forEach((key) =>
+            expectNumber(metadata[key], `${path}.${key}`)
+        );
+    }
+    ['yaw', 'pitch', 'roll'].forEach((key) =>
+        expectNumber(metadata[key], `${path}.${key}`)
+    );
+    ['hfov', 'vfov'].forEach((key) => {
+        const fov = expectNumber(metadata[key], `${path}.${key}`);
+        if (fov <= 0.0 || fov >= 180.0) {
+            throw new ValidationError(
+                `${path}.${key}`,
+                `is ${fov}, not in (0, 180) degrees`
+            );
+        }
+    });
+
+    if (metadata.calibration !== undefined) {
+        validateLensCalibration(metadata.calibration, `${path}.calibration`);
+    }
+
+    return metadata as unknown as CameraMetadata;
+}
+
+/**
+ * Validate a lens calibration: a known model, and finite coefficients.
+ * @param value The value
+ * @param path Path to the value, for errors
+ * @returns The calibration
+ */
+export function validateLensCalibration(
+    value: unknown,
+    path: string = 'calibration'
+): LensCalibration {
+    const calibration = expectObject(value, path);
+    if (
+        calibration.model !== undefined &&
+        calibration.model != 'brown-conrady' &&
+        calibration.model != 'fisheye'
+    ) {
+        throw new ValidationError(
+            `${path}.model`,
+            `is '${calibration.model}', not a known lens model`
+        );
+    }
+    ['cx', 'cy', 'k1', 'k2', 'k3', 'k4', 'p1', 'p2'].forEach((key) => {
+        if (calibration[key] !== undefined) {
+            expectNumber(calibration[key], `${path}.${key}`);
+        }
+    });
+
+    return calibration as LensCalibration;
+}
+
+/**
+ * Validate the samples of a metadata track. Invalid samples are left
+ * out, so that a few bad samples do not make the whole track unusable.
+ * @param value The value
+ * @param path Path to the value, for errors
+ * @returns The valid samples, and the errors of the invalid ones
+ */
+export function validateMetadataSamples(
+    value: unknown,
+    path: string = 'samples'
+): [MetadataSample[], ValidationError[]] {
+    const samples: MetadataSample[] = [];
+    const errors: ValidationError[] = [];
+
+    expectArray(value, path).forEach((item, i) => {
+        try {
+            const sample = expectObject(item, `${path}[${i}]`);
+            samples.push({
+                time: expectNumber(sample.time, `${path}[${i}].time`),
+                metadata: validateMetadata(
+                    sample.metadata,
+                    `${path}[${i}].metadata`
+                ),
+            });
+        } catch (e) {
+            if (!(e instanceof ValidationError)) {
+                throw e;
+            }
+            errors.push(e);
+        }
+    });
+
+    if (samples.length == 0) {
+        throw new ValidationError(path, 'has no valid samples');
+    }
+
+    return [samples, errors];
+}
+
+/**
+ * Validate the structure of GeoJSON data: a feature collection or a
+ * feature, with geometries of known types and positions of finite
+ * numbers.
+ * @param value The value
+ * @param path Path to the value, for errors
+ * @returns The data
+ */
+export function validateGeoJson(
+    value: unknown,
+    path: string = 'geojson'
+): GeoJson {
+    const data = expectObject(value, path);
+
+    if (data.type == 'FeatureCollection') {
+        expectArray(data.features, `${path}.features`).forEach((feature, i) =>
+            validateFeature(feature, `${path}.features[${i}]`)
+        );
+    } else if (data.type == 'Feature') {
+        validateFeature(data, path);
+    } else {
+        throw new ValidationError(
+            `${path}.type`,
+            `is '${data.type}', not a FeatureCollection or Feature`
+        );
+    }
+
+    return data as unknown as GeoJson;
+}
+
+function validateFeature(value: unknown, path: string): void {
+    const feature = expectObject(value, path);
+    if (feature.type != 'Feature') {
+        throw new ValidationError(`${path}.type`, `is not 'Feature'`);
+    }
+
+    if (feature.geometry !== null) {
+        validateGeometry(feature.geometry, `${path}.geometry`);
+    }
+}
+
+function validateGeometry(value: unknown, path: string): void {
+    const geometry = expectObject(value, path);
+    const depth = geometryDepths.get(`${geometry.type}`);
+    if (geometry.type == 'GeometryCollection') {
+        expectArray(geometry.geometries, `${path}.geometries`).forEach(
+            (child, i) => validateGeometry(child, `${path}.geometries[${i}]`)
+        );
+    } else if (depth !== undefined) {
+        validatePositions(geometry.coordinates, `${path}.coordinates`, depth);
+    } else {
+        throw new ValidationError(
+            `${path}.type`,
+            `is '${geometry.type}', not a geometry type`
+        );
+    }
+}
+
+/**
+ * Validate the positions of a geometry, nested in arrays to the given
+ * depth.
+ */
+function validatePositions(value: unknown, path: string, depth: number): void {
+    const array = expectArray(value, path);
+    if (depth > 0) {
+        array.forEach((child, i) =>
+            validatePositions(child, `${path}[${i}]`, depth - 1)
+        );
+        return;
+    }
+
+    if (array.length < 2) {
+        throw new ValidationError(path, 'is not a position');
+    }
+    array.forEach((coordinate, i) => expectNumber(coordinate, `${path}[${i}]`));
+}
+
+/**
+ * The array nesting depths of the positions of the geometry types.
+ */
+const geometryDepths = new Map<string, number>([
+    ['Point', 0],
+    ['MultiPoint', 1],
+    ['LineString', 1],
+    ['MultiLineString', 2],
+    ['Polygon', 2],
+    ['MultiPolygon', 3],
+]);
@@ -1,8 +1,49 @@
 import * as Three from 'three';
 
+import { Metadata } from './app_util';
+import { createDistanceMaterial, renderDistanceMap } from './distance_map';
+import {
+    ImageEnhancement,
+    createEnhancementUniforms,
+    imageEnhancementGlsl,
+    setEnhancementUniforms,
+} from './image_enhancement';
+import {
+    createLensUniforms,
+    lensDistortionGlsl,
+    setLensUniforms,
+} from './lens_calibration';
+
+/**
+ * How the video overlay is composited with the rendered terrain:
+ * - video: the video only
+ * - blend: the video blended over the terrain, by the overlay's opacity
+ * - swipe: the video left of a split line, and the terrain right of it
+ * - silhouette: the video, with the terrain's silhouette edges on top
+ * - difference: the absolute difference between the video and the terrain
+ */
+export type CompositingMode =
+    'video' | 'blend' | 'swipe' | 'silhouette' | 'difference';
+
+/**
+ * The compositing modes, in the order of the shader's uMode values.
+ */
+export const compositingModes: CompositingMode[] = [
+    'video',
+    'blend',
+    'swipe',
+    'silhouette',
+    'difference',
+];
+
 /**
  * The video overlay is a textured full screen quad. It does depth test,
  * and it does not write to the depth buffer.
+ *
+ * The overlay is drawn after the terrain, and blended with it depending on
+ * the compositing mode. The silhouette and difference modes need the
+ * terrain as seen from the sensor in textures, which are rendered by
+ * update.
  */
 export class VideoOverlay {
     public constructor() {
@@ -50,13 +91,7 @@ export class VideoOverlay {
         geometry.setAttribute('uv', new Three.BufferAttribute(uvs, 2));
 
         // Create texture.
-        const texture = new Three.Texture();
-        texture.wrapS = Three.ClampToEdgeWrapping;
-        texture.wrapT = Three.ClampToEdgeWrapping;
-        texture.generateMipmaps = true;
-        texture.magFilter = Three.LinearFilter;
-        texture.minFilter = Three.LinearMipmapLinearFilter;
-        texture.needsUpdate = true;
+        const texture = createImageTexture();
 
         // Create material.
 
@@ -65,23 +100,230 @@ export class VideoOverlay {
             fragmentShader: this._fragmentSource,
             depthTest: false,
             depthWrite: false,
+            // Blending without being transparent, to keep the overlay in
+            // the render order of the opaque objects.
+            blending: Three.CustomBlending,
+            blendSrc: Three.SrcAlphaFactor,
+            blendDst: Three.OneMinusSrcAlphaFactor,
             uniforms: {
                 uImage: { value: texture },
+                uUndistort: { value: false },
+                uMode: { value: 0 },
+                uOpacity: { value: 0.5 },
+                uSwipe: { value: 0.5 },
+                uTerrainColor: { value: null },
+                uTerrainDistance: { value: null },
+                uTexelSize: { value: new Three.Vector2(1.0, 1.0) },
+                ...createLensUniforms(),
+                ...createEnhancementUniforms(),
             },
         });
 
+        // After the terrain, and before the vector and measuring overlays.
         this._mesh = new Three.Mesh(geometry, material);
         this._mesh.frustumCulled = false;
+        this._mesh.renderOrder = 1;
+
+        this._distanceMaterial = createDistanceMaterial();
+    }
+
+    /**
+     * Set a new image for the video overlay. A video element is streamed,
+     * i.e. the overlay always shows the video's current frame.
+     * @param image The new image or video.
+     */
+    public updateTexture(image: HTMLImageElement | HTMLVideoElement): void {
+        const material = this._mesh.material as Three.RawShaderMaterial;
+        const current = material.uniforms.uImage.value as Three.Texture;
+
+        if (image instanceof HTMLVideoElement) {
+            if (current.image !== image) {
+                current.dispose();
+                material.uniforms.uImage.value = createVideoTexture(image);
+            }
+        } else if (current instanceof Three.VideoTexture) {
+            current.dispose();
+            const texture = createImageTexture();
+            texture.image = image;
+            material.uniforms.uImage.value = texture;
+        } else {
+            current.image = image;
+            current.needsUpdate = true;
+        }
+    }
+
+    /**
+     * Set the lens calibration used for undistortion of the image.
+     * @param metadata The metadata for the image
+     */
+    public setCalibration(metadata: Metadata): void {
+        const material = this._mesh.material as Three.RawShaderMaterial;
+        setLensUniforms(material.uniforms, metadata);
+    }
+
+    /**
+     * Set the adjustments of the image.
+     * @param enhancement The adjustments
+     * @param levels The black and white levels to use
+     */
+    public setEnhancement(
+        enhancement: ImageEnhancement,
+        levels: [number, number]
+    ): void {
+        const material = this._mesh.material as Three.RawShaderMaterial;
+        setEnhancementUniforms(material.uniforms, enhancement, levels);
+    }
+
+    /**
+     * Enable or disable undistortion of the image.
+     * @param enabled Flag to enable undistortion
+     */
+    public setUndistortion(enabled: boolean): void {
+        const material = this._mesh.material as Three.RawShaderMaterial;
+        material.uniforms.uUndistort.value = enabled;
+    }
+
+    /**
+     * Check if undistortion of the image is enabled.
+     * @returns True if enabled
+     */
+    public undistortion(): boolean {
+        const material = this._mesh.material as Three.RawShaderMaterial;
+        return material.uniforms.uUndistort.value;
+    }
+
+    /**
+     * Set the compositing mode.
+     * @param mode The mode
+     */
+    public setCompositing(mode: CompositingMode): void {
+        const material = this._mesh.material as Three.RawShaderMaterial;
+        material.uniforms.uMode.value = compositingModes.indexOf(mode);
+    }
+
+    /**
+     * Get the compositing mode.
+     * @returns The mode
+     */
+    public compositing(): CompositingMode {
+        const material = this._mesh.material as Three.RawShaderMaterial;
+        return compositingModes[material.uniforms.uMode.value];
+    }
+
+    /**
+     * Set the opacity of the video, for the blend mode.
+     * @param opacity Opacity in [0, 1]
+     */
+    public setOpacity(opacity: number): void {
+        const material = this._mesh.material as Three.RawShaderMaterial;
+        material.uniforms.uOpacity.value = Three.MathUtils.clamp(
+            opacity,
+            0.0,
+            1.0
+        );
+    }
+
+    /**
+     * Get the opacity of the video.
+     * @returns The opacity
+     */
+    public opacity(): number {
+        const material = this._mesh.material as Three.RawShaderMaterial;
+        return material.uniforms.uOpacity.value;
+    }
+
+    /**
+     * Set the position of the split line, for the swipe mode.
+     * @param position Position as a fraction of the drawing area's width
+     */
+    public setSwipe(position: number): void {
+        const material = this._mesh.material as Three.RawShaderMaterial;
+        material.uniforms.uSwipe.value = Three.MathUtils.clamp(
+            position,
+            0.0,
+            1.0
+        );
+    }
+
+    /**
+     * Get the position of the split line.
+     * @returns Position as a fraction of the drawing area's width
+     */
+    public swipe(): number {
+        const material = this._mesh.material as Three.RawShaderMaterial;
+        return material.uniforms.uSwipe.value;
     }
 
     /**
-     * Set a new image for the video overlay.
-     * @param image The new image.
+     * Render the terrain textures needed by the compositing mode, before
+     * the scene is rendered with the sensor camera. The textures have the
+     * size of the current drawing area.
+     * @param renderer The renderer
+     * @param scene The scene, of which only the terrain and the lights are
+     * rendered for the difference mode
+     * @param terrain The terrain, a child of the scene
+     * @param camera The sensor camera
      */
-    public updateTexture(image: HTMLImageElement): void {
+    public update(
+        renderer: Three.WebGLRenderer,
+        scene: Three.Scene,
+        terrain: Three.Object3D,
+        camera: Three.PerspectiveCamera
+    ): void {
+        const mode = this.compositing();
+        if (mode != 'silhouette' && mode != 'difference') {
+            return;
+        }
+
+        const viewport = renderer.getCurrentViewport(new Three.Vector4());
+        const target = this.terrainTarget(viewport.z, viewport.w);
         const material = this._mesh.material as Three.RawShaderMaterial;
-        material.uniforms.uImage.value.image = image;
-        material.uniforms.uImage.value.needsUpdate = true;
+        material.uniforms.uTexelSize.value.set(
+            1.0 / viewport.z,
+            1.0 / viewport.w
+        );
+
+        if (mode == 'silhouette') {
+            renderDistanceMap(
+                renderer,
+                target,
+                terrain,
+                camera,
+                this._distanceMaterial
+            );
+            material.uniforms.uTerrainDistance.value = target.texture;
+        } else {
+            // Only the terrain, lit by the scene's lights, and not the
+            // overlay or what else is drawn on top of the terrain.
+            const renderTarget = renderer.getRenderTarget();
+            const hidden = scene.children.filter(
+                (child) =>
+                    child.visible &&
+                    child !== terrain &&
+                    !(child instanceof Three.Light)
+            );
+            hidden.forEach((child) => {
+                child.visible = false;
+            });
+
+            renderer.setRenderTarget(target);
+            renderer.render(scene, camera);
+
+            renderer.setRenderTarget(renderTarget);
+            hidden.forEach((child) => {
+                child.visible = true;
+            });
+            material.uniforms.uTerrainColor.value = target.texture;
+        }
+    }
+
+    /**
+     * Get the texture with the current image.
+     * @returns The texture
+     */
+    public texture(): Three.Texture {
+        const material = this._mesh.material as Three.RawShaderMaterial;
+        return material.uniforms.uImage.value;
     }
 
     /**
@@ -92,7 +334,42 @@ export class VideoOverlay {
         return this._mesh;
     }
 
+    /**
+     * Release the GPU resources of the compositing.
+     */
+    public dispose(): void {
+        this._distanceMaterial.dispose();
+        if (this._terrainTarget) {
+            this._terrainTarget.dispose();
+        }
+    }
+
+    /**
+     * Get the render target for the terrain textures, with the given size.
+     */
+    private terrainTarget(
+        width: number,
+        height: number
+    ): Three.WebGLRenderTarget {
+        if (!this._terrainTarget) {
+            this._terrainTarget = new Three.WebGLRenderTarget(width, height, {
+                minFilter: Three.NearestFilter,
+                magFilter: Three.NearestFilter,
+                generateMipmaps: false,
+            });
+        } else if (
+            this._terrainTarget.width != width ||
+            this._terrainTarget.height != height
+        ) {
+            this._terrainTarget.setSize(width, height);
+        }
+
+        return this._terrainTarget;
+    }
+
     private _mesh: Three.Mesh;
+    private _distanceMaterial: Three.ShaderMaterial;
+    private _terrainTarget?: Three.WebGLRenderTarget;
 
     private readonly _vertexSource = `#version 300 es
 
@@ -110,12 +387,96 @@ void main() {
 
 precision highp float;
 
+#include <packing>
+
 uniform sampler2D uImage;
+uniform bool uUndistort;
+uniform int uMode;
+uniform float uOpacity;
+uniform float uSwipe;
+uniform sampler2D uTerrainColor;
+uniform sampler2D uTerrainDistance;
+uniform vec2 uTexelSize;
 
 in vec2 vUv;
 out vec4 color;
+${lensDistortionGlsl}${imageEnhancementGlsl}
+// The modes, as in compositingModes.
+const int modeBlend = 1;
+const int modeSwipe = 2;
+const int modeSilhouette = 3;
+const int modeDifference = 4;
+
+// A silhouette edge is a jump in the distance to the terrain, relative to
+// the distance. The cleared distance map is at the far distance.
+bool silhouette() {
+    float center = unpackRGBAToDepth(texture(uTerrainDistance, vUv));
+    float jump = 0.0;
+    jump = max(jump, abs(center - unpackRGBAToDepth(texture(uTerrainDistance, vUv + vec2(uTexelSize.x, 0.0)))));
+    jump = max(jump, abs(center - unpackRGBAToDepth(texture(uTerrainDistance, vUv - vec2(uTexelSize.x, 0.0)))));
+    jump = max(jump, abs(center - unpackRGBAToDepth(texture(uTerrainDistance, vUv + vec2(0.0, uTexelSize.y)))));
+    jump = max(jump, abs(center - unpackRGBAToDepth(texture(uTerrainDistance, vUv - vec2(0.0, uTexelSize.y)))));
+
+    return jump > center * 0.05;
+}
 
 void main() {
-    color = vec4(texture(uImage, vUv).rgb, 1.0);
+    // The split line, with the terrain to the right of it.
+    if (uMode == modeSwipe) {
+        if (abs(vUv.x - uSwipe) < fwidth(vUv.x)) {
+            color = vec4(1.0);
+            return;
+        } else if (vUv.x > uSwipe) {
+            discard;
+        }
+    }
+
+    vec2 uv = uUndistort ? undistortedUv(vUv) : vUv;
+    vec3 video = vec3(0.0);
+    if (all(greaterThanEqual(uv, vec2(0.0))) && all(lessThanEqual(uv, vec2(1.0)))) {
+        video = enhance(texture(uImage, uv).rgb);
+    }
+
+    if (uMode == modeBlend) {
+        color = vec4(video, uOpacity);
+    } else if (uMode == modeSilhouette && silhouette()) {
+        color = vec4(1.0, 1.0, 0.0, 1.0);
+    } else if (uMode == modeDifference) {
+        color = vec4(abs(video - texture(uTerrainColor, vUv).rgb), 1.0);
+    } else {
+        color = vec4(video, 1.0);
+    }
 }`;
 }
+
+/**
+ * Create a texture for still images.
+ * @returns The texture
+ */
+function createImageTexture(): Three.Texture {
+    const texture = new Three.Texture();
+    texture.wrapS = Three.ClampToEdgeWrapping;
+    texture.wrapT = Three.ClampToEdgeWrapping;
+    texture.generateMipmaps = true;
+    texture.magFilter = Three.LinearFilter;
+    texture.minFilter = Three.LinearMipmapLinearFilter;
+    texture.needsUpdate = true;
+
+    return texture;
+}
+
+/**
+ * Create a texture streaming from a video. No mipmaps, as they would be
+ * regenerated for every frame.
+ * @param video The video element
+ * @returns The texture
+ */
+function createVideoTexture(video: HTMLVideoElement): Three.VideoTexture {
+    const texture = new Three.VideoTexture(video);
+    texture.wrapS = Three.ClampToEdgeWrapping;
+    texture.wrapT = Three.ClampToEdgeWrapping;
+    texture.magFilter = Three.LinearFilter;
+    texture.minFilter = Three.LinearFilter;
+
+    return texture;
+}
@@ -0,0 +1,223 @@
+import { CameraMetadata } from './app_util';
+
+/**
+ * The parts of the video frame callback API that are used here. Not yet
+ * part of the DOM typings.
+ */
+interface VideoFrameMetadata {
+    mediaTime: number;
+}
+
+interface VideoFrameCallbackProvider {
+    requestVideoFrameCallback(
+        callback: (now: number, metadata: VideoFrameMetadata) => void
+    ): number;
+}
+
+/**
+ * Playback control of a sequence of frames, with presentation times in
+ * seconds from the start of the sequence.
+ */
+export interface FramePlayer {
+    /** The element with the current frame. */
+    image(): HTMLImageElement | HTMLVideoElement;
+    /** The metadata of the current frame, undefined for sources whose
+     * metadata comes from a separate track. */
+    metadata(): CameraMetadata | undefined;
+    /** Width and height of the frames in pixels. */
+    width(): number;
+    height(): number;
+    /** The presentation time of the current frame, in seconds. */
+    frameTime(): number;
+    /** The nominal frame rate of the source. */
+    frameRate(): number;
+    duration(): number;
+    isPlaying(): boolean;
+    /** Check if the last seek or step has completed, i.e. if the
+     * requested frame is the current frame. */
+    ready(): boolean;
+    play(): Promise<void>;
+    pause(): void;
+    togglePlay(): Promise<void>;
+    seek(time: number): void;
+    step(frames: number): void;
+}
+
+/**
+ * Playback control of a video element, keeping track of the presentation
+ * time of the frame that currently is decoded and shown.
+ */
+export class VideoPlayer implements FramePlayer {
+    /**
+     * Create a new player.
+     * @param video The video element
+     * @param frameRate The nominal frame rate, used for frame stepping
+     */
+    public constructor(video: HTMLVideoElement, frameRate: number = 30.0) {
+        this._video = video;
+        this._frameRate = frameRate;
+        this._frameTime = video.currentTime;
+
+        if ('requestVideoFrameCallback' in video) {
+            // The frame callback gives the exact media time for the frame
+            // handed to the compositor.
+            const provider = video as unknown as VideoFrameCallbackProvider;
+            const onFrame = (now: number, metadata: VideoFrameMetadata) => {
+                this._frameTime = metadata.mediaTime;
+                this._presented = true;
+                provider.requestVideoFrameCallback(onFrame);
+            };
+            provider.requestVideoFrameCallback(onFrame);
+            this._hasFrameCallback = true;
+        } else {
+            this._hasFrameCallback = false;
+        }
+    }
+
+    /**
+     * Get the video element.
+     * @returns The video element
+     */
+    public video(): HTMLVideoElement {
+        return this._video;
+    }
+
+    /**
+     * Get the element with the current frame, i.e. the video element.
+     * @returns The video element
+     */
+    public image(): HTMLVideoElement {
+        return this._video;
+    }
+
+    /**
+     * Get the metadata of the current frame. A video's metadata comes
+     * from a separate track.
+     * @returns Undefined
+     */
+    public metadata(): undefined {
+        return undefined;
+    }
+
+    /**
+     * Get the width of the video.
+     * @returns The width in pixels
+     */
+    public width(): number {
+        return this._video.videoWidth;
+    }
+
+    /**
+     * Get the height of the video.
+     * @returns The height in pixels
+     */
+    public height(): number {
+        return this._video.videoHeight;
+    }
+
+    /**
+     * Get the presentation time of the current frame.
+     * @returns The time in seconds
+     */
+    public frameTime(): number {
+        if (!this._hasFrameCallback || this._video.seeking) {
+            // Fallback, or no frame presented yet for a pending seek.
+            return this._video.currentTime;
+        }
+
+        return this._frameTime;
+    }
+
+    /**
+     * Get the nominal frame rate.
+     * @returns The frame rate
+     */
+    public frameRate(): number {
+        return this._frameRate;
+    }
+
+    /**
+     * Get the duration of the video.
+     * @returns The duration in seconds
+     */
+    public duration(): number {
+        return isFinite(this._video.duration) ? this._video.duration : 0.0;
+    }
+
+    /**
+     * Check if the video is playing.
+     * @returns True if playing
+     */
+    public isPlaying(): boolean {
+        return !this._video.paused && !this._video.ended;
+    }
+
+    /**
+     * Check if no seek is pending, and the current frame is decoded. With
+     * the frame callback, the frame must also have been presented, as the
+     * frame time is only updated then.
+     * @returns True if ready
+     */
+    public ready(): boolean {
+        return (
+            !this._video.seeking &&
+            this._video.readyState >= HTMLMediaElement.HAVE_CURRENT_DATA &&
+            (!this._hasFrameCallback || this._presented)
+        );
+    }
+
+    /**
+     * Start playback.
+     */
+    public async play(): Promise<void> {
+        await this._video.play();
+    }
+
+    /**
+     * Pause playback.
+     */
+    public pause(): void {
+        this._video.pause();
+    }
+
+    /**
+     * Toggle between play and pause.
+     */
+    public async togglePlay(): Promise<void> {
+        if (this.isPlaying()) {
+            this.pause();
+        } else {
+            await this.play();
+        }
+    }
+
+    /**
+     * Seek to a time. The time is clamped to the video's duration.
+     * @param time The time in seconds
+     */
+    public seek(time: number): void {
+        const clamped = Math.min(Math.max(time, 0.0), this.duration());
+        this._video.currentTime = clamped;
+        this._frameTime = clamped;
+        this._presented = false;
+    }
+
+    /**
+     * Pause and step a number of frames forward or backward.
+     * @param frames Number of frames, negative to step backward
+     */
+    public step(frames: number): void {
+        this.pause();
+
+        // Aim for the middle of the target frame to not get rounded into
+        // the neighbouring frame.
+        const frame = Math.floor(this.frameTime() * this._frameRate);
+        this.seek((frame + frames + 0.5) / this._frameRate);
+    }
+
+    private _video: HTMLVideoElement;
+    private _frameRate: number;
+    private _frameTime: number;
+    private _hasFrameCallback: boolean;
+    private _presented = true;
+}
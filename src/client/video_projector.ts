@@ -0,0 +1,228 @@
+import * as Three from 'three';
+
+import { Metadata } from './app_util';
+import {
+    createDistanceMaterial,
+    renderDistanceMap,
+    renderWithMaterial,
+} from './distance_map';
+import {
+    ImageEnhancement,
+    createEnhancementUniforms,
+    imageEnhancementGlsl,
+    setEnhancementUniforms,
+} from './image_enhancement';
+import {
+    createLensUniforms,
+    lensDistortionGlsl,
+    setLensUniforms,
+} from './lens_calibration';
+
+/**
+ * The video projector drapes the video onto the terrain, as a projective
+ * texture from the sensor camera. Occlusion is handled as for a shadow map:
+ * a distance map is rendered from the sensor, and terrain further away than
+ * the mapped distance is hidden from the sensor and is not painted.
+ *
+ * The draping is drawn as an extra pass on top of an already rendered
+ * frame, so the terrain keeps its own materials outside the footprint.
+ */
+export class VideoProjector {
+    /**
+     * Create a new projector.
+     * @param distanceMapSize Width and height of the distance map
+     */
+    public constructor(distanceMapSize: number = 2048) {
+        this._distanceMap = new Three.WebGLRenderTarget(
+            distanceMapSize,
+            distanceMapSize,
+            {
+                minFilter: Three.NearestFilter,
+                magFilter: Three.NearestFilter,
+                generateMipmaps: false,
+            }
+        );
+
+        this._distanceMaterial = createDistanceMaterial();
+
+        this._projectionMaterial = new Three.ShaderMaterial({
+            vertexShader: this._projectionVertexSource,
+            fragmentShader: this._projectionFragmentSource,
+            transparent: true,
+            depthWrite: false,
+            depthFunc: Three.LessEqualDepth,
+            uniforms: {
+                uImage: { value: null },
+                uDistanceMap: { value: this._distanceMap.texture },
+                uCameraToSensor: { value: new Three.Matrix4() },
+                uSensorProjection: { value: new Three.Matrix4() },
+                uFar: { value: 1.0 },
+                uOpacity: { value: 1.0 },
+                ...createLensUniforms(),
+                ...createEnhancementUniforms(),
+            },
+        });
+    }
+
+    /**
+     * Update the projector for a new sensor pose or video frame, and
+     * render the distance map from the sensor.
+     * @param renderer The renderer
+     * @param terrain The terrain to project onto
+     * @param sensor The sensor camera, as set by setCameraMetadata
+     * @param image Texture with the current video frame
+     * @param metadata The metadata for the frame
+     */
+    public update(
+        renderer: Three.WebGLRenderer,
+        terrain: Three.Object3D,
+        sensor: Three.PerspectiveCamera,
+        image: Three.Texture,
+        metadata: Metadata
+    ): void {
+        terrain.updateMatrixWorld();
+
+        const uniforms = this._projectionMaterial.uniforms;
+        uniforms.uImage.value = image;
+        uniforms.uSensorProjection.value.copy(sensor.projectionMatrix);
+        uniforms.uFar.value = sensor.far;
+        setLensUniforms(uniforms, metadata);
+        this._sensor = sensor;
+
+        renderDistanceMap(
+            renderer,
+            this._distanceMap,
+            terrain,
+            sensor,
+            this._distanceMaterial
+        );
+    }
+
+    /**
+     * Render the draped video on top of the current frame.
+     * @param renderer The renderer
+     * @param terrain The terrain to project onto
+     * @param camera The camera the frame was rendered with
+     */
+    public render(
+        renderer: Three.WebGLRenderer,
+        terrain: Three.Object3D,
+        camera: Three.Camera
+    ): void {
+        if (!this._sensor) {
+            return;
+        }
+
+        // The transform from the view camera to the sensor is composed in
+        // double precision, as the terrain is rendered relative to the
+        // view camera.
+        const uniforms = this._projectionMaterial.uniforms;
+        uniforms.uCameraToSensor.value.multiplyMatrices(
+            this._sensor.matrixWorldInverse,
+            camera.matrixWorld
+        );
+
+        const autoClear = renderer.autoClear;
+        renderer.autoClear = false;
+        renderWithMaterial(renderer, terrain, camera, this._projectionMaterial);
+        renderer.autoClear = autoClear;
+    }
+
+    /**
+     * Set the adjustments of the draped video.
+     * @param enhancement The adjustments
+     * @param levels The black and white levels to use
+     */
+    public setEnhancement(
+        enhancement: ImageEnhancement,
+        levels: [number, number]
+    ): void {
+        setEnhancementUniforms(
+            this._projectionMaterial.uniforms,
+            enhancement,
+            levels
+        );
+    }
+
+    /**
+     * Set the opacity of the draped video.
+     * @param opacity Opacity in [0, 1]
+     */
+    public setOpacity(opacity: number): void {
+        this._projectionMaterial.uniforms.uOpacity.value = opacity;
+    }
+
+    /**
+     * Release the GPU resources.
+     */
+    public dispose(): void {
+        this._distanceMap.dispose();
+        this._distanceMaterial.dispose();
+        this._projectionMaterial.dispose();
+    }
+
+    private _distanceMap: Three.WebGLRenderTarget;
+    private _distanceMaterial: Three.ShaderMaterial;
+    private _projectionMaterial: Three.ShaderMaterial;
+    private _sensor?: Three.PerspectiveCamera;
+
+    private readonly _projectionVertexSource = `
+#include <common>
+#include <logdepthbuf_pars_vertex>
+
+uniform mat4 uCameraToSensor;
+uniform mat4 uSensorProjection;
+
+varying vec4 vSensorClip;
+varying float vSensorDistance;
+
+void main() {
+    #include <begin_vertex>
+    #include <project_vertex>
+    #include <logdepthbuf_vertex>
+
+    vec4 sensorPosition = uCameraToSensor * mvPosition;
+    vSensorClip = uSensorProjection * sensorPosition;
+    vSensorDistance = length(sensorPosition.xyz);
+}`;
+
+    private readonly _projectionFragmentSource = `
+#include <packing>
+#include <logdepthbuf_pars_fragment>
+
+uniform sampler2D uImage;
+uniform sampler2D uDistanceMap;
+uniform float uFar;
+uniform float uOpacity;
+
+varying vec4 vSensorClip;
+varying float vSensorDistance;
+${lensDistortionGlsl}${imageEnhancementGlsl}
+void main() {
+    #include <logdepthbuf_fragment>
+
+    // Outside of the sensor's frustum.
+    if (vSensorClip.w <= 0.0 || vSensorDistance > uFar) {
+        discard;
+    }
+    vec2 ndc = vSensorClip.xy / vSensorClip.w;
+    if (any(greaterThan(abs(ndc), vec2(1.0)))) {
+        discard;
+    }
+
+    // Hidden from the sensor. The bias grows with the distance, as the
+    // distance map's texels cover more terrain further away.
+    vec2 uv = ndc * 0.5 + 0.5;
+    float mapped = unpackRGBAToDepth(texture2D(uDistanceMap, uv)) * uFar;
+    if (vSensorDistance > mapped + 0.5 + vSensorDistance * 0.005) {
+        discard;
+    }
+
+    vec2 imageUv = undistortedUv(uv);
+    if (any(lessThan(imageUv, vec2(0.0))) || any(greaterThan(imageUv, vec2(1.0)))) {
+        discard;
+    }
+
+    gl_FragColor = vec4(enhance(texture2D(uImage, imageUv).rgb), uOpacity);
+}`;
+}
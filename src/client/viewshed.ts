@@ -0,0 +1,353 @@
+import * as Three from 'three';
+import { LineMaterial } from 'three/examples/jsm/lines/LineMaterial';
+import { LineSegments2 } from 'three/examples/jsm/lines/LineSegments2';
+import { LineSegmentsGeometry } from 'three/examples/jsm/lines/LineSegmentsGeometry';
+
+import { terrainLayer } from './app_util';
+import {
+    createDistanceMaterial,
+    renderDistanceMap,
+    renderWithMaterial,
+} from './distance_map';
+import {
+    createLabel,
+    disposeOverlay,
+    relativePositions,
+} from './geojson_layer';
+
+/**
+ * The viewshed shades the terrain that is visible and hidden from an
+ * observer, up to a range. As for the video projector, occlusion is found
+ * from a distance map, but here the map is a cube map covering all
+ * directions around the observer.
+ *
+ * The shading is drawn as an extra pass on top of an already rendered
+ * frame.
+ */
+export class Viewshed {
+    /**
+     * Create a new viewshed.
+     * @param distanceMapSize Width and height of each cube map face
+     */
+    public constructor(distanceMapSize: number = 1024) {
+        this._distanceMap = new Three.WebGLCubeRenderTarget(distanceMapSize, {
+            format: Three.RGBAFormat,
+            minFilter: Three.NearestFilter,
+            magFilter: Three.NearestFilter,
+            generateMipmaps: false,
+        });
+        this._cubeCamera = new Three.CubeCamera(1.0, 1.0, this._distanceMap);
+
+        this._distanceMaterial = createDistanceMaterial();
+
+        this._shadingMaterial = new Three.ShaderMaterial({
+            vertexShader: this._shadingVertexSource,
+            fragmentShader: this._shadingFragmentSource,
+            transparent: true,
+            depthWrite: false,
+            depthFunc: Three.LessEqualDepth,
+            uniforms: {
+                uDistanceMap: { value: this._distanceMap.texture },
+                uCameraToObserver: { value: new Three.Matrix4() },
+                uRange: { value: 1.0 },
+                uVisibleColor: { value: new Three.Color(0x00ff00) },
+                uHiddenColor: { value: new Three.Color(0xff0000) },
+                uOpacity: { value: 0.35 },
+            },
+        });
+    }
+
+    /**
+     * Update the viewshed for an observer, and render the distance map
+     * from it. Needs to be done again when the terrain is changed.
+     * @param renderer The renderer
+     * @param terrain The terrain
+     * @param observer The observer's ECEF position
+     * @param range The range of the analysis in meters
+     */
+    public update(
+        renderer: Three.WebGLRenderer,
+        terrain: Three.Object3D,
+        observer: Three.Vector3,
+        range: number
+    ): void {
+        terrain.updateMatrixWorld();
+
+        this._observer = observer.clone();
+        this._shadingMaterial.uniforms.uRange.value = range;
+
+        this._cubeCamera.position.copy(observer);
+        this._cubeCamera.children.forEach((child) => {
+            const camera = child as Three.PerspectiveCamera;
+            camera.far = range;
+            camera.updateProjectionMatrix();
+        });
+        this._cubeCamera.updateMatrixWorld();
+
+        this._cubeCamera.children.forEach((child, face) =>
+            renderDistanceMap(
+                renderer,
+                this._distanceMap,
+                terrain,
+                child as Three.PerspectiveCamera,
+                this._distanceMaterial,
+                face
+            )
+        );
+    }
+
+    /**
+     * Get the current observer.
+     * @returns The observer's ECEF position, undefined before update
+     */
+    public observer(): Three.Vector3 | undefined {
+        return this._observer;
+    }
+
+    /**
+     * Render the shading on top of the current frame.
+     * @param renderer The renderer
+     * @param terrain The terrain
+     * @param camera The camera the frame was rendered with
+     */
+    public render(
+        renderer: Three.WebGLRenderer,
+        terrain: Three.Object3D,
+        camera: Three.Camera
+    ): void {
+        if (!this._observer) {
+            return;
+        }
+
+        // The cube map is in world axes, so only the observer's position is
+        // taken out of the view camera's transform, in double precision.
+        this._shadingMaterial.uniforms.uCameraToObserver.value
+            .makeTranslation(
+                -this._observer.x,
+                -this._observer.y,
+                -this._observer.z
+            )
+            .multiply(camera.matrixWorld);
+
+        const autoClear = renderer.autoClear;
+        renderer.autoClear = false;
+        renderWithMaterial(renderer, terrain, camera, this._shadingMaterial);
+        renderer.autoClear = autoClear;
+    }
+
+    /**
+     * Set the opacity of the shading.
+     * @param opacity Opacity in [0, 1]
+     */
+    public setOpacity(opacity: number): void {
+        this._shadingMaterial.uniforms.uOpacity.value = opacity;
+    }
+
+    /**
+     * Release the GPU resources.
+     */
+    public dispose(): void {
+        this._distanceMap.dispose();
+        this._distanceMaterial.dispose();
+        this._shadingMaterial.dispose();
+    }
+
+    private _distanceMap: Three.WebGLCubeRenderTarget;
+    private _cubeCamera: Three.CubeCamera;
+    private _distanceMaterial: Three.ShaderMaterial;
+    private _shadingMaterial: Three.ShaderMaterial;
+    private _observer?: Three.Vector3;
+
+    private readonly _shadingVertexSource = `
+#include <common>
+#include <logdepthbuf_pars_vertex>
+
+uniform mat4 uCameraToObserver;
+
+varying vec3 vFromObserver;
+
+void main() {
+    #include <begin_vertex>
+    #include <project_vertex>
+    #include <logdepthbuf_vertex>
+
+    vFromObserver = (uCameraToObserver * mvPosition).xyz;
+}`;
+
+    private readonly _shadingFragmentSource = `
+#include <packing>
+#include <logdepthbuf_pars_fragment>
+
+uniform samplerCube uDistanceMap;
+uniform float uRange;
+uniform vec3 uVisibleColor;
+uniform vec3 uHiddenColor;
+uniform float uOpacity;
+
+varying vec3 vFromObserver;
+
+void main() {
+    #include <logdepthbuf_fragment>
+
+    float distance = length(vFromObserver);
+    if (distance > uRange) {
+        discard;
+    }
+
+    // Hidden if further away than the mapped distance, with a bias as for
+    // the video projector.
+    float mapped = unpackRGBAToDepth(textureCube(uDistanceMap, vFromObserver)) * uRange;
+    bool hidden = distance > mapped + 0.5 + distance * 0.005;
+
+    gl_FragColor = vec4(hidden ? uHiddenColor : uVisibleColor, uOpacity);
+}`;
+}
+
+/**
+ * The result of a line of sight check.
+ */
+export interface LineOfSightResult {
+    visible: boolean;
+    /** Where the line is blocked by terrain, if not visible. */
+    blockedAt?: Three.Vector3;
+    /** Distance between the points in meters. */
+    distance: number;
+}
+
+/**
+ * Check the line of sight between two points over the terrain, by casting
+ * a ray from the first point. Points on the terrain surface are allowed a
+ * tolerance.
+ * @param raycaster The raycaster
+ * @param terrain The terrain
+ * @param from The observer's ECEF position
+ * @param to The target's ECEF position
+ * @returns The result
+ */
+export function lineOfSight(
+    raycaster: Three.Raycaster,
+    terrain: Three.Object3D,
+    from: Three.Vector3,
+    to: Three.Vector3
+): LineOfSightResult {
+    const distance = from.distanceTo(to);
+    const direction = to.clone().sub(from).normalize();
+
+    raycaster.layers.set(terrainLayer);
+    raycaster.set(from, direction);
+    raycaster.far = distance;
+    const intersects = raycaster.intersectObject(terrain, true);
+    raycaster.far = Infinity;
+
+    const tolerance = Math.max(1.0, distance * 0.001);
+    if (
+        intersects.length > 0 &&
+        intersects[0].distance < distance - tolerance
+    ) {
+        return {
+            visible: false,
+            blockedAt: intersects[0].point,
+            distance: distance,
+        };
+    }
+
+    return { visible: true, distance: distance };
+}
+
+/**
+ * Drawing of a line of sight: visible parts of the line are green and
+ * hidden parts are red, with a label at the target.
+ */
+export class LineOfSightOverlay {
+    /**
+     * Get the root of the drawing, to be added to the scene.
+     * @returns The root
+     */
+    public root(): Three.Object3D {
+        return this._root;
+    }
+
+    /**
+     * Draw a line of sight.
+     * @param from The observer's ECEF position
+     * @param to The target's ECEF position
+     * @param result The result of the check
+     */
+    public set(
+        from: Three.Vector3,
+        to: Three.Vector3,
+        result: LineOfSightResult
+    ): void {
+        this.clear();
+
+        const points = result.blockedAt
+            ? [from, result.blockedAt, result.blockedAt, to]
+            : [from, to];
+        const [origin, positions] = relativePositions(points);
+
+        const colors = result.blockedAt
+            ? [visibleColor, visibleColor, hiddenColor, hiddenColor]
+            : [visibleColor, visibleColor];
+        const geometry = new LineSegmentsGeometry();
+        geometry.setPositions(Array.from(positions));
+        geometry.setColors(
+            colors.reduce(
+                (values: number[], color) => [
+                    ...values,
+                    color.r,
+                    color.g,
+                    color.b,
+                ],
+                []
+            )
+        );
+        const material = new LineMaterial({
+            vertexColors: true,
+            linewidth: 2.0,
+            depthTest: false,
+        });
+        material.resolution = this._resolution;
+
+        const line = new LineSegments2(geometry, material);
+        line.position.copy(origin);
+        line.renderOrder = 3;
+
+        const text = result.blockedAt
+            ? `blocked at ${from
+                  .distanceTo(result.blockedAt)
+                  .toFixed(1)} m of ${result.distance.toFixed(1)} m`
+            : `visible ${result.distance.toFixed(1)} m`;
+        const label = createLabel(text, 0.04);
+        label.position.copy(to);
+
+        this._overlay = new Three.Group();
+        this._overlay.add(line, label);
+        this._root.add(this._overlay);
+    }
+
+    /**
+     * Remove the drawing.
+     */
+    public clear(): void {
+        if (this._overlay) {
+            disposeOverlay(this._overlay);
+            this._overlay = undefined;
+        }
+    }
+
+    /**
+     * Set the size of the drawing area, needed for the line width.
+     * @param width Width in pixels
+     * @param height Height in pixels
+     */
+    public setResolution(width: number, height: number): void {
+        this._resolution.set(width, height);
+    }
+
+    private _root = new Three.Group();
+    private _overlay?: Three.Group;
+    private _resolution = new Three.Vector2(1.0, 1.0);
+}
+
+const visibleColor = new Three.Color(0x00ff00);
+const hiddenColor = new Three.Color(0xff0000);